@@ -1,46 +1,403 @@
 import { z } from "zod";
+import { OAUTH_PROVIDERS, OAuthProviderId } from "../constants/OAuthProviders";
+import { TwoFactorChallenge, TwoFactorMethod } from "../store/authStore";
+import {
+  PasskeyAssertionCredential,
+  passkeyCreationOptionsSchema,
+  PasskeyRegistrationCredential,
+  passkeyRequestOptionsSchema,
+} from "../utils/webauthn";
+import {
+  Consent,
+  emailPayloadSchema,
+  loginPayloadSchema,
+  passwordResetPayloadSchema,
+  signupPayloadSchema,
+} from "./authSchemas";
 import api from "./axios";
+import { ApiError, parsePayload, parseResponse } from "./errors";
 
 // Define schemas for validation
-const loginResponseSchema = z.object({
-  token: z.string(),
+/**
+ * Login responses carry an access/refresh token pair.
+ * Legacy gateways that only return `{ token }` are still accepted and
+ * normalized to the same shape, without a refresh token.
+ */
+const loginResponseSchema = z
+  .union([
+    z.object({
+      accessToken: z.string(),
+      refreshToken: z.string(),
+    }),
+    z.object({
+      token: z.string(),
+      refreshToken: z.string().optional(),
+    }),
+  ])
+  .transform((data) => ({
+    token: "accessToken" in data ? data.accessToken : data.token,
+    refreshToken: data.refreshToken ?? null,
+  }));
+
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+
+/**
+ * Returned instead of a session when the account has two-factor
+ * authentication enabled; the challenge token is redeemed together with
+ * a code through `verifyTwoFactor`
+ */
+const twoFactorChallengeSchema = z.object({
+  twoFactorRequired: z.literal(true),
+  challengeToken: z.string().min(1),
+  methods: z
+    .array(z.enum(["totp", "backup_code"]))
+    .default(["totp", "backup_code"]),
+});
+
+/**
+ * Login outcomes
+ * - session: signed in
+ * - two_factor_required: a TOTP or backup code is needed to finish
+ */
+export type LoginResult =
+  | ({ type: "session" } & LoginResponse)
+  | ({ type: "two_factor_required" } & Omit<TwoFactorChallenge, "email">);
+
+const parseLoginResponse = (data: unknown): LoginResult => {
+  const challenge = twoFactorChallengeSchema.safeParse(data);
+  if (challenge.success) {
+    const { challengeToken, methods } = challenge.data;
+    return { type: "two_factor_required", challengeToken, methods };
+  }
+
+  return { type: "session", ...parseResponse(loginResponseSchema, data) };
+};
+
+/**
+ * Flags the gateway may set on a signup response that carries no session
+ */
+const signupFlagsSchema = z.looseObject({
+  verificationRequired: z.boolean().optional(),
+});
+
+/**
+ * Signup outcomes
+ * - session: the gateway signed the new user in straight away
+ * - verification_required: the email must be confirmed before signing in
+ * - created: the account exists and the user signs in themselves
+ */
+export type SignupResult =
+  | ({ type: "session" } & LoginResponse)
+  | { type: "verification_required" }
+  | { type: "created" };
+
+const parseSignupResponse = (data: unknown): SignupResult => {
+  const session = loginResponseSchema.safeParse(data);
+  if (session.success) {
+    return { type: "session", ...session.data };
+  }
+
+  const flags = signupFlagsSchema.safeParse(data);
+  return flags.success && flags.data.verificationRequired
+    ? { type: "verification_required" }
+    : { type: "created" };
+};
+
+const verifyEmailPayloadSchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
+const magicLinkExchangeSchema = z.object({
+  code: z.string().min(1, "Sign-in code is required"),
+});
+
+const twoFactorVerifyPayloadSchema = z.object({
+  challengeToken: z.string().min(1, "Sign-in challenge is required"),
+  method: z.enum(["totp", "backup_code"]),
+  code: z.string().trim().min(1, "Code is required"),
 });
 
-const loginPayloadSchema = z.object({
-  email: z.string().email("Invalid email format"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+/**
+ * Sensitive actions (account deletion) ask for the password again, or
+ * for a code emailed to accounts without one, and get a short-lived
+ * token proving it
+ */
+const reauthenticatePayloadSchema = z.union([
+  z.object({ password: z.string().min(1, "Enter your password") }),
+  z.object({
+    code: z
+      .string()
+      .trim()
+      .regex(/^\d{6}$/, "Enter the 6-digit code from the email"),
+  }),
+]);
+
+export type ReauthCredentials = z.input<typeof reauthenticatePayloadSchema>;
+
+const reauthenticateResponseSchema = z.object({
+  reauthToken: z.string().min(1),
+});
+
+const checkEmailResponseSchema = z.object({
+  available: z.boolean(),
 });
 
-const signupPayloadSchema = z.object({
-  email: z.string().email("Invalid email format"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+const twoFactorCodeSchema = z
+  .string()
+  .regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app");
+
+const twoFactorSetupResponseSchema = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string().startsWith("otpauth://"),
 });
 
-const googleLoginPayloadSchema = z.object({
-  token: z.string().min(1, "Google token is required"),
+export type TwoFactorSetup = z.infer<typeof twoFactorSetupResponseSchema>;
+
+const twoFactorEnableResponseSchema = z.object({
+  backupCodes: z.array(z.string()),
 });
 
+/**
+ * Credential produced by the provider's browser flow
+ * (see OAuthCredentialType in constants/OAuthProviders)
+ */
+const oauthCredentialSchema = z.union([
+  z.object({
+    idToken: z.string().min(1, "Identity token is required"),
+  }),
+  z.object({
+    code: z.string().min(1, "Authorization code is required"),
+    codeVerifier: z.string().min(1, "Code verifier is required"),
+    redirectUri: z.string().min(1, "Redirect URI is required"),
+  }),
+]);
+
+export type OAuthCredential = z.infer<typeof oauthCredentialSchema>;
+
+/**
+ * The gateway refuses a login with this code
+ * when the email address hasn't been confirmed yet
+ */
+export const isEmailNotVerifiedError = (error: ApiError): boolean =>
+  error.kind === "auth" && error.code === "EMAIL_NOT_VERIFIED";
+
 export const authApi = {
-  signup: async (credentials: { email: string; password: string }) => {
-    const validatedData = signupPayloadSchema.parse(credentials);
+  signup: async (credentials: {
+    email: string;
+    password: string;
+    consent: Consent;
+  }) => {
+    const validatedData = parsePayload(signupPayloadSchema, credentials);
     const response = await api.post(`/auth/auth/signup`, validatedData);
-    return response.data;
+    return parseSignupResponse(response.data);
+  },
+  /**
+   * Whether an email can still be used to sign up.
+   * Unlike the reset and magic link requests this does reveal which
+   * emails are registered, so the gateway rate-limits it and the signup
+   * screen only asks after the user stops typing.
+   */
+  checkEmail: async (payload: { email: string }, signal?: AbortSignal) => {
+    const validatedData = parsePayload(emailPayloadSchema, payload);
+    const response = await api.post(`/auth/auth/check-email`, validatedData, {
+      signal,
+    });
+    return parseResponse(checkEmailResponseSchema, response.data).available;
   },
   login: async (credentials: { email: string; password: string }) => {
-    const validatedData = loginPayloadSchema.parse(credentials);
+    const validatedData = parsePayload(loginPayloadSchema, credentials);
     const response = await api.post(`/auth/auth/login`, validatedData);
-    return loginResponseSchema.parse(response.data);
+    return parseLoginResponse(response.data);
   },
 
   /**
-   * Google OAuth login (Prepared for backend integration)
-   * This will be activated when backend Google OAuth is implemented
+   * Email a one-time sign-in link.
+   * Like password reset requests, the answer doesn't reveal whether
+   * the email is registered.
    */
-  googleLogin: async (googleToken: string) => {
-    const validatedData = googleLoginPayloadSchema.parse({
-      token: googleToken,
-    });
-    const response = await api.post(`/auth/google`, validatedData);
-    return loginResponseSchema.parse(response.data);
+  requestMagicLink: async (payload: { email: string }) => {
+    const validatedData = parsePayload(emailPayloadSchema, payload);
+    await api.post(`/auth/auth/magic-link`, validatedData);
+  },
+
+  /**
+   * Exchange the one-time code from a sign-in link for a session;
+   * resolves like `login`, including two-factor challenges
+   */
+  exchangeMagicLink: async (payload: { code: string }) => {
+    const validatedData = parsePayload(magicLinkExchangeSchema, payload);
+    const response = await api.post(
+      `/auth/auth/magic-link/verify`,
+      validatedData,
+    );
+    return parseLoginResponse(response.data);
+  },
+
+  /**
+   * Passkey sign-in, step 1: a challenge for the browser to sign.
+   * Without an email any passkey for this site may answer
+   * (discoverable credentials).
+   */
+  getPasskeyLoginOptions: async (payload: { email?: string } = {}) => {
+    const response = await api.post(
+      `/auth/auth/passkeys/login/options`,
+      payload,
+    );
+    return parseResponse(passkeyRequestOptionsSchema, response.data);
+  },
+
+  /**
+   * Passkey sign-in, step 2: the signed challenge for a session;
+   * resolves like `login`
+   */
+  verifyPasskeyLogin: async (credential: PasskeyAssertionCredential) => {
+    const response = await api.post(
+      `/auth/auth/passkeys/login/verify`,
+      credential,
+    );
+    return parseLoginResponse(response.data);
+  },
+
+  /**
+   * Passkey registration for the signed-in user, step 1
+   */
+  getPasskeyRegistrationOptions: async () => {
+    const response = await api.post(`/auth/auth/passkeys/register/options`);
+    return parseResponse(passkeyCreationOptionsSchema, response.data);
+  },
+
+  /**
+   * Passkey registration, step 2: store the new credential
+   */
+  verifyPasskeyRegistration: async (
+    credential: PasskeyRegistrationCredential,
+  ) => {
+    await api.post(`/auth/auth/passkeys/register/verify`, credential);
+  },
+
+  /**
+   * Finish a login that answered with a two-factor challenge
+   */
+  verifyTwoFactor: async (payload: {
+    challengeToken: string;
+    method: TwoFactorMethod;
+    code: string;
+  }) => {
+    const validatedData = parsePayload(twoFactorVerifyPayloadSchema, payload);
+    const response = await api.post(`/auth/auth/2fa/verify`, validatedData);
+    return parseResponse(loginResponseSchema, response.data);
+  },
+
+  /**
+   * Start enrolling the signed-in user: returns a new TOTP secret,
+   * which stays inactive until confirmed with `enableTwoFactor`
+   */
+  setupTwoFactor: async () => {
+    const response = await api.post(`/auth/auth/2fa/setup`);
+    return parseResponse(twoFactorSetupResponseSchema, response.data);
+  },
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the one-time backup codes, which are only shown once.
+   */
+  enableTwoFactor: async (payload: { code: string }) => {
+    const code = parsePayload(twoFactorCodeSchema, payload.code);
+    const response = await api.post(`/auth/auth/2fa/enable`, { code });
+    return parseResponse(twoFactorEnableResponseSchema, response.data)
+      .backupCodes;
+  },
+
+  /**
+   * Ask for a password reset email.
+   * The gateway answers the same way whether or not the email is
+   * registered, so this never reveals which accounts exist.
+   */
+  requestPasswordReset: async (payload: { email: string }) => {
+    const validatedData = parsePayload(emailPayloadSchema, payload);
+    await api.post(`/auth/auth/forgot-password`, validatedData);
+  },
+
+  /**
+   * Set a new password using the token from the reset email link
+   */
+  resetPassword: async (payload: { token: string; password: string }) => {
+    const validatedData = parsePayload(passwordResetPayloadSchema, payload);
+    await api.post(`/auth/auth/reset-password`, validatedData);
+  },
+
+  /**
+   * Revoke a session on the server.
+   * Takes the session's own tokens, since by the time this runs the
+   * session is already gone from the store (and another account may be
+   * active).
+   */
+  logout: async (session: { token: string; refreshToken: string | null }) => {
+    await api.post(
+      `/auth/auth/logout`,
+      session.refreshToken ? { refreshToken: session.refreshToken } : {},
+      { headers: { Authorization: `Bearer ${session.token}` } },
+    );
+  },
+
+  /**
+   * Email the signed-in user a one-time code for `reauthenticate`, for
+   * accounts that sign in without a password (social, magic link, passkey)
+   */
+  requestReauthCode: async () => {
+    await api.post(`/auth/auth/reauthentication-code`);
+  },
+
+  /**
+   * Confirm the signed-in user's password, or an emailed code, before a
+   * sensitive action.
+   * Resolves to a short-lived token to pass along with that action.
+   */
+  reauthenticate: async (payload: ReauthCredentials) => {
+    const validatedData = parsePayload(reauthenticatePayloadSchema, payload);
+    const response = await api.post(`/auth/auth/reauthenticate`, validatedData);
+    return parseResponse(reauthenticateResponseSchema, response.data)
+      .reauthToken;
+  },
+
+  /**
+   * Confirm an email address using the token from the verification link
+   */
+  verifyEmail: async (payload: { token: string }) => {
+    const validatedData = parsePayload(verifyEmailPayloadSchema, payload);
+    await api.post(`/auth/auth/verify-email`, validatedData);
+  },
+
+  /**
+   * Send the verification email again
+   */
+  resendVerificationEmail: async (payload: { email: string }) => {
+    const validatedData = parsePayload(emailPayloadSchema, payload);
+    await api.post(`/auth/auth/resend-verification`, validatedData);
+  },
+
+  /**
+   * OAuth login
+   * Posts the provider's credential to the provider's exchange route and
+   * returns the gateway session
+   */
+  oauthLogin: async ({
+    providerId,
+    credential,
+  }: {
+    providerId: OAuthProviderId;
+    credential: OAuthCredential;
+  }) => {
+    const validatedData = parsePayload(oauthCredentialSchema, credential);
+    // ID-token routes take it as `token`, like the original Google route
+    const payload =
+      "idToken" in validatedData
+        ? { token: validatedData.idToken }
+        : validatedData;
+    const response = await api.post(
+      OAUTH_PROVIDERS[providerId].exchangeRoute,
+      payload,
+    );
+    return parseLoginResponse(response.data);
   },
 };
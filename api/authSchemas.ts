@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { evaluatePassword, MIN_PASSWORD_SCORE } from "../utils/passwordPolicy";
+
+/**
+ * Auth form and payload schemas
+ *
+ * The forms validate with these (through useZodForm) and authApi checks
+ * its payloads with the same ones, so the client and the API can't
+ * disagree about what a valid email or password is.
+ */
+
+export const emailSchema = z
+  .string()
+  .trim()
+  .min(1, "Email is required")
+  .email("Please enter a valid email address");
+
+/**
+ * Signing in only needs a password; the strength rules apply to new
+ * passwords and may be stricter than when older accounts were created
+ */
+const currentPasswordSchema = z.string().min(1, "Password is required");
+
+const weakPasswordMessage = (feedback: string[]) =>
+  "Password is too weak. " + feedback.join(", ");
+
+/**
+ * A password being set (signup, reset). The breached-password check
+ * needs the network, so forms run it as an async validator
+ * (validatePasswordNotBreached) on top of this.
+ */
+export const newPasswordSchema = z
+  .string()
+  .min(1, "Password is required")
+  .superRefine((password, ctx) => {
+    const { score, feedback } = evaluatePassword(password);
+    if (score < MIN_PASSWORD_SCORE) {
+      ctx.addIssue({ code: "custom", message: weakPasswordMessage(feedback) });
+    }
+  });
+
+const confirmPasswordSchema = z.string().min(1, "Please confirm your password");
+
+/**
+ * Acceptance of the current Terms of Service and Privacy Policy, sent
+ * with signup and with re-consent. `acceptedAt` is when the user
+ * agreed; the gateway keeps it next to its own receipt time for audits.
+ */
+export const consentSchema = z.object({
+  termsVersion: z.string().min(1),
+  privacyVersion: z.string().min(1),
+  acceptedAt: z.iso.datetime(),
+});
+
+export type Consent = z.infer<typeof consentSchema>;
+
+const acceptTermsSchema = z
+  .boolean()
+  .refine(
+    (accepted) => accepted,
+    "Please accept the Terms of Service and Privacy Policy",
+  );
+
+const passwordsMatch = (data: { password: string; confirmPassword: string }) =>
+  data.password === data.confirmPassword;
+
+/**
+ * Rates the password again with the email, which makes passwords like
+ * "jane.doe!2024" guessable for this account
+ */
+const passwordAvoidsEmail = (
+  { email, password }: { email: string; password: string },
+  ctx: z.RefinementCtx,
+) => {
+  const { score, feedback } = evaluatePassword(password, [email]);
+  if (score < MIN_PASSWORD_SCORE) {
+    ctx.addIssue({
+      code: "custom",
+      message: weakPasswordMessage(feedback),
+      path: ["password"],
+    });
+  }
+};
+
+const passwordMismatch = {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+};
+
+// Payloads
+
+export const emailPayloadSchema = z.object({
+  email: emailSchema,
+});
+
+export const loginPayloadSchema = z.object({
+  email: emailSchema,
+  password: currentPasswordSchema,
+});
+
+const signupFieldsSchema = z.object({
+  email: emailSchema,
+  password: newPasswordSchema,
+});
+
+export const signupPayloadSchema = signupFieldsSchema
+  .extend({ consent: consentSchema })
+  .superRefine(passwordAvoidsEmail);
+
+export const passwordResetPayloadSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: newPasswordSchema,
+});
+
+// Forms
+
+export const signupFormSchema = signupFieldsSchema
+  .extend({
+    confirmPassword: confirmPasswordSchema,
+    acceptTerms: acceptTermsSchema,
+  })
+  .superRefine(passwordAvoidsEmail)
+  .refine(passwordsMatch, passwordMismatch);
+
+export const resetPasswordFormSchema = z
+  .object({
+    password: newPasswordSchema,
+    confirmPassword: confirmPasswordSchema,
+  })
+  .refine(passwordsMatch, passwordMismatch);
+
+export const consentFormSchema = z.object({
+  acceptTerms: acceptTermsSchema,
+});
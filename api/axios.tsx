@@ -1,14 +1,290 @@
-import axios from "axios";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
+import { z } from "zod";
+import { useAuthStore } from "../store/authStore";
+import { withAuthRefreshLock } from "../store/authSync";
+import { tokenProvider } from "../store/tokenProvider";
+import { decodeJwt } from "../utils/jwt";
+import { logger } from "../utils/logger";
+import {
+  isRefreshRejectedError,
+  isSessionRevokedError,
+  parseResponse,
+  toApiError,
+} from "./errors";
+
+export const API_BASE_URL = "http://10.10.3.144:4000"; //Gateway URL
+
+const REFRESH_ENDPOINT = "/auth/auth/refresh";
+const REQUEST_TIMEOUT_MS = 15_000;
+
+const SESSION_REVOKED_MESSAGE =
+  "You were signed out because this session was ended from another device. Please sign in again.";
+
+/**
+ * Endpoints whose 401 means "bad credentials", not "expired token".
+ * They must never trigger a refresh, otherwise a wrong password would
+ * loop through the refresh flow.
+ */
+const NO_REFRESH_ENDPOINTS = [
+  "/auth/auth/login",
+  "/auth/auth/signup",
+  "/auth/auth/reset-password",
+  "/auth/auth/2fa/verify",
+  "/auth/auth/magic-link/verify",
+  "/auth/auth/passkeys/login/verify",
+  "/auth/auth/logout",
+  "/auth/auth/reauthenticate",
+  REFRESH_ENDPOINT,
+];
+
+const refreshResponseSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string().optional(),
+});
+
+/**
+ * Request config flagged once it has been replayed after a refresh,
+ * so a second 401 fails instead of refreshing forever, and when it
+ * brought another session's token (e.g. `authApi.logout`), so its 401
+ * says nothing about the active session. `_userId` is the account whose
+ * token was attached: a refresh or replay must stay with that account
+ * even if another one has become active since.
+ */
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _retry?: boolean;
+  _ownToken?: boolean;
+  _userId?: string;
+};
 
 const api = axios.create({
-  baseURL: "http://10.10.3.144:4000", //Gateway URL
+  baseURL: API_BASE_URL,
+  timeout: REQUEST_TIMEOUT_MS,
 });
 
-api.interceptors.request.use(async (config) => {
-  const token = await AsyncStorage.getItem("token");
-  if (token) config.headers.Authorization = `Bearer ${token}`;
+api.interceptors.request.use((config: RetriableRequestConfig) => {
+  const token = tokenProvider.getAccessToken();
+  // Requests made on behalf of a specific session bring their own token;
+  // a replay after refresh carries its account's, set by the 401 handler
+  if (config.headers.Authorization) {
+    config._ownToken = config._ownToken ?? !config._retry;
+  } else if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+    config._userId = decodeJwt(token)?.sub;
+  }
   return config;
 });
 
+const sentToken = (config: RetriableRequestConfig) =>
+  String(config.headers.Authorization ?? "").replace(/^Bearer /, "");
+
+/**
+ * Refreshes in progress, per account
+ * Queue Pattern: requests failing while their account's refresh is
+ * running wait for it and are replayed with the new token instead of
+ * refreshing again
+ */
+const refreshes = new Map<string, Promise<string>>();
+
+/**
+ * Redeem a refresh token for a new token pair
+ * Uses the bare axios instance so the call bypasses these interceptors;
+ * `refreshToken` is omitted when the gateway doesn't rotate it.
+ */
+export const exchangeRefreshToken = async (refreshToken: string) => {
+  const response = await axios.post(`${API_BASE_URL}${REFRESH_ENDPOINT}`, {
+    refreshToken,
+  });
+  return parseResponse(refreshResponseSchema, response.data);
+};
+
+/**
+ * Exchange an account's refresh token for a new access token, stored in
+ * that account's session whether or not it's still the active one.
+ *
+ * `staleToken` is the access token that needs replacing. Only one tab
+ * refreshes at a time (see withAuthRefreshLock); a tab that waited for
+ * the lock finds the pair another tab already rotated in and uses it.
+ */
+const refreshAccessToken = (
+  userId: string,
+  staleToken: string,
+): Promise<string> =>
+  withAuthRefreshLock(async () => {
+    const session = useAuthStore.getState().sessions[userId];
+    if (!session) {
+      throw new Error("Account is no longer signed in");
+    }
+    if (session.token !== staleToken) {
+      logger.info("Token already refreshed by another tab");
+      return session.token;
+    }
+    if (!session.refreshToken) {
+      throw new Error("No refresh token available");
+    }
+
+    try {
+      const tokens = await exchangeRefreshToken(session.refreshToken);
+      if (
+        !useAuthStore
+          .getState()
+          .updateSessionTokens(userId, tokens.accessToken, tokens.refreshToken)
+      ) {
+        throw new Error("Refreshed token doesn't match the account");
+      }
+      return tokens.accessToken;
+    } catch (error) {
+      // The winning tab's pair may have arrived while this request was
+      // in flight; the rejection was for the token it already rotated
+      const latest = useAuthStore.getState().sessions[userId];
+      if (
+        latest &&
+        latest.token !== session.token &&
+        latest.refreshToken !== session.refreshToken
+      ) {
+        return latest.token;
+      }
+      throw error;
+    }
+  });
+
+/**
+ * Sign out a session the gateway says was revoked, and tell the user
+ * why on the login screen if it was the active one
+ */
+const endRevokedSession = (userId: string) => {
+  logger.warn("Session was revoked remotely, signing out", { userId });
+  const { activeUserId, removeAccount, setError } = useAuthStore.getState();
+  removeAccount(userId);
+  if (userId === activeUserId) {
+    setError(SESSION_REVOKED_MESSAGE);
+  }
+};
+
+/**
+ * End the session once the refresh token is no longer accepted
+ *
+ * Network, timeout and server failures leave the session alone: the
+ * refresh is tried again on the next 401, and by the expiry watcher when
+ * the app comes back to the foreground or online.
+ */
+const handleRefreshFailure = (userId: string, error: unknown) => {
+  const apiError = toApiError(error);
+  if (isSessionRevokedError(apiError)) {
+    endRevokedSession(userId);
+    return;
+  }
+
+  const session = useAuthStore.getState().sessions[userId];
+  if (!session) {
+    return;
+  }
+
+  if (session.refreshToken && !isRefreshRejectedError(apiError)) {
+    logger.info("Token refresh failed, keeping session for a retry", {
+      kind: apiError.kind,
+    });
+    return;
+  }
+
+  logger.warn("Token refresh failed, signing out", {
+    message: apiError.message,
+  });
+  // For the active account, the root layout sends the user to login,
+  // remembering where they were
+  useAuthStore.getState().removeAccount(userId);
+};
+
+/**
+ * Refresh an account's session (the active one by default), or join the
+ * refresh already in progress for it.
+ * Used both by the 401 handler and by proactive expiry scheduling;
+ * a refresh the gateway rejects signs the account out.
+ */
+export const refreshSession = (
+  userId = useAuthStore.getState().activeUserId,
+): Promise<string> => {
+  const session = userId ? useAuthStore.getState().sessions[userId] : null;
+  if (!userId || !session) {
+    return Promise.reject(new Error("No session to refresh"));
+  }
+
+  // A refresh is already running: wait for its result
+  const running = refreshes.get(userId);
+  if (running) {
+    return running;
+  }
+
+  const refresh = refreshAccessToken(userId, session.token)
+    .catch((refreshError) => {
+      handleRefreshFailure(userId, refreshError);
+      throw refreshError;
+    })
+    .finally(() => refreshes.delete(userId));
+  refreshes.set(userId, refresh);
+  return refresh;
+};
+
+api.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+    // Another session's 401 (a queued logout, removing an inactive
+    // account) must not sign out or refresh the active one
+    if (!originalRequest || originalRequest._ownToken) {
+      return Promise.reject(error);
+    }
+
+    const userId = originalRequest._userId;
+    const session = userId
+      ? useAuthStore.getState().sessions[userId]
+      : undefined;
+    const sentCurrentToken =
+      !!session && session.token === sentToken(originalRequest);
+
+    // Revoked sessions can't be refreshed
+    if (
+      error.response?.status === 401 &&
+      isSessionRevokedError(toApiError(error))
+    ) {
+      if (userId && sentCurrentToken) {
+        endRevokedSession(userId);
+      }
+      return Promise.reject(error);
+    }
+
+    const shouldRefresh =
+      error.response?.status === 401 &&
+      !originalRequest._retry &&
+      !NO_REFRESH_ENDPOINTS.some((url) => originalRequest.url?.includes(url));
+
+    // Only ever replay as the account that made the request
+    if (!shouldRefresh || !userId || !session) {
+      return Promise.reject(error);
+    }
+
+    originalRequest._retry = true;
+
+    // The token was replaced while this request was out (another request
+    // or tab refreshed): replay with the new one instead of refreshing
+    const token = sentCurrentToken
+      ? await refreshSession(userId)
+      : session.token;
+    if (decodeJwt(token)?.sub !== userId) {
+      return Promise.reject(error);
+    }
+    originalRequest.headers.Authorization = `Bearer ${token}`;
+    return api(originalRequest);
+  },
+);
+
+/**
+ * Registered after the refresh handler so it sees the final outcome:
+ * every rejection from `api` is an ApiError (see ./errors)
+ */
+api.interceptors.response.use(
+  (response) => response,
+  (error) => Promise.reject(toApiError(error)),
+);
+
 export default api;
@@ -0,0 +1,324 @@
+import { AxiosError, isAxiosError } from "axios";
+import { z } from "zod";
+
+/**
+ * Normalized API errors
+ *
+ * Design Patterns Used:
+ * - Adapter Pattern: Turns axios/zod failures into one typed error shape
+ * - Discriminated Union: `kind` tells callers what went wrong
+ *
+ * Every error leaving `api` (and every failed authApi payload check) is an
+ * ApiError, so hooks and screens can switch on `kind` instead of poking at
+ * status codes. `message` is always safe to show to the user.
+ */
+
+/**
+ * Field name → first message for that field
+ */
+export type FieldErrors = Record<string, string>;
+
+interface ApiErrorBase extends Error {
+  name: "ApiError";
+  status?: number;
+  code?: string; // Gateway error code, e.g. "EMAIL_NOT_VERIFIED"
+}
+
+export interface NetworkApiError extends ApiErrorBase {
+  kind: "network";
+}
+
+export interface TimeoutApiError extends ApiErrorBase {
+  kind: "timeout";
+}
+
+export interface ValidationApiError extends ApiErrorBase {
+  kind: "validation";
+  fieldErrors: FieldErrors;
+}
+
+export interface AuthApiError extends ApiErrorBase {
+  kind: "auth";
+  status: number;
+}
+
+/**
+ * Too many requests (429), or an account locked after repeated failures
+ * (423, or code "ACCOUNT_LOCKED"); `retryAfterMs` is null when the
+ * gateway didn't say how long to wait
+ */
+export interface RateLimitedApiError extends ApiErrorBase {
+  kind: "rate_limited";
+  retryAfterMs: number | null;
+}
+
+export interface ServerApiError extends ApiErrorBase {
+  kind: "server";
+}
+
+export interface UnknownApiError extends ApiErrorBase {
+  kind: "unknown";
+}
+
+export type ApiError =
+  | NetworkApiError
+  | TimeoutApiError
+  | ValidationApiError
+  | AuthApiError
+  | RateLimitedApiError
+  | ServerApiError
+  | UnknownApiError;
+
+export type ApiErrorKind = ApiError["kind"];
+
+// Let React Query type `error` as ApiError for every query and mutation
+declare module "@tanstack/react-query" {
+  interface Register {
+    defaultError: ApiError;
+  }
+}
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  network: "Network error. Please check your connection and try again.",
+  timeout: "The request timed out. Please try again.",
+  validation: "Some of the details you entered are invalid.",
+  auth: "You are not authorized to do that. Please sign in again.",
+  rate_limited: "Too many attempts. Please wait a moment and try again.",
+  server: "Server error. Please try again later.",
+  unknown: "Something went wrong. Please try again.",
+};
+
+/**
+ * Field errors in the gateway envelope, either as a map
+ * (`{ email: "..." }` / `{ email: ["..."] }`) or as a list
+ * (`[{ field: "email", message: "..." }]`)
+ */
+const fieldErrorsSchema = z.union([
+  z.record(z.string(), z.union([z.string(), z.array(z.string())])),
+  z.array(z.object({ field: z.string(), message: z.string() })),
+]);
+
+/**
+ * Gateway error envelope
+ * `message` may be a list when the upstream service reports several
+ * problems at once; the first one is shown.
+ */
+const errorEnvelopeSchema = z.looseObject({
+  message: z.union([z.string(), z.array(z.string())]).optional(),
+  code: z.string().optional(),
+  errors: fieldErrorsSchema.optional(),
+  retryAfter: z.number().optional(), // Seconds
+  lockedUntil: z.string().optional(), // ISO date, for account lockouts
+});
+
+type ErrorEnvelope = z.infer<typeof errorEnvelopeSchema>;
+
+const createApiError = <T extends ApiError>(
+  fields: Omit<T, keyof Error | "name"> & { message?: string },
+): T =>
+  Object.assign(
+    new Error(fields.message || DEFAULT_MESSAGES[fields.kind as ApiErrorKind]),
+    { ...fields, name: "ApiError" as const },
+  ) as unknown as T;
+
+/**
+ * Rate limits apply to everyone; a lockout applies to one account
+ */
+export const isAccountLockedError = (error: ApiError): boolean =>
+  error.kind === "rate_limited" &&
+  (error.status === 423 || error.code === "ACCOUNT_LOCKED");
+
+/**
+ * The session was ended from elsewhere (another device's session list,
+ * an admin); a token refresh won't bring it back
+ */
+export const isSessionRevokedError = (error: ApiError): boolean =>
+  error.kind === "auth" && error.code === "SESSION_REVOKED";
+
+/**
+ * The gateway refused the refresh token itself (expired, rotated away,
+ * revoked), as opposed to the refresh request failing to get through
+ */
+export const isRefreshRejectedError = (error: ApiError): boolean =>
+  error.kind === "auth" ||
+  (error.kind === "validation" &&
+    error.status === 400 &&
+    error.code === "invalid_grant");
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof Error &&
+  error.name === "ApiError" &&
+  typeof (error as { kind?: unknown }).kind === "string";
+
+const normalizeFieldErrors = (errors: ErrorEnvelope["errors"]): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  if (!errors) return fieldErrors;
+
+  const entries = Array.isArray(errors)
+    ? errors.map(({ field, message }) => [field, message] as const)
+    : Object.entries(errors).map(
+        ([field, messages]) =>
+          [field, Array.isArray(messages) ? messages[0] : messages] as const,
+      );
+
+  entries.forEach(([field, message]) => {
+    if (message && !fieldErrors[field]) fieldErrors[field] = message;
+  });
+  return fieldErrors;
+};
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date; without it the
+ * envelope's retryAfter or lockedUntil is used
+ */
+const parseRetryAfter = (
+  header: unknown,
+  envelope: ErrorEnvelope | undefined,
+): number | null => {
+  if (typeof header === "string" && header.trim()) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  if (envelope?.retryAfter !== undefined) {
+    return Math.max(0, envelope.retryAfter * 1000);
+  }
+
+  const lockedUntil = envelope?.lockedUntil
+    ? Date.parse(envelope.lockedUntil)
+    : NaN;
+  return Number.isNaN(lockedUntil)
+    ? null
+    : Math.max(0, lockedUntil - Date.now());
+};
+
+const fromAxiosError = (error: AxiosError): ApiError => {
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return createApiError<TimeoutApiError>({ kind: "timeout" });
+  }
+
+  const response = error.response;
+  if (!response) {
+    return createApiError<NetworkApiError>({ kind: "network" });
+  }
+
+  const { status } = response;
+  const parsed = errorEnvelopeSchema.safeParse(response.data);
+  const envelope = parsed.success ? parsed.data : undefined;
+  const serverMessage = Array.isArray(envelope?.message)
+    ? envelope.message[0]
+    : envelope?.message;
+  const code = envelope?.code;
+
+  if (status === 408) {
+    return createApiError<TimeoutApiError>({ kind: "timeout", status, code });
+  }
+
+  if (status === 429 || status === 423 || code === "ACCOUNT_LOCKED") {
+    return createApiError<RateLimitedApiError>({
+      kind: "rate_limited",
+      status,
+      code,
+      message: serverMessage,
+      retryAfterMs: parseRetryAfter(
+        response.headers?.["retry-after"],
+        envelope,
+      ),
+    });
+  }
+
+  if (status === 401 || status === 403) {
+    return createApiError<AuthApiError>({
+      kind: "auth",
+      status,
+      code,
+      message: serverMessage,
+    });
+  }
+
+  if (status === 400 || status === 409 || status === 422) {
+    return createApiError<ValidationApiError>({
+      kind: "validation",
+      status,
+      code,
+      message: serverMessage,
+      fieldErrors: normalizeFieldErrors(envelope?.errors),
+    });
+  }
+
+  // Server-side details are logged upstream, not shown to users
+  if (status >= 500) {
+    return createApiError<ServerApiError>({ kind: "server", status, code });
+  }
+
+  return createApiError<UnknownApiError>({
+    kind: "unknown",
+    status,
+    code,
+    message: serverMessage,
+  });
+};
+
+/**
+ * Client-side schema failures (e.g. authApi payload checks) become
+ * validation errors keyed by the failing field
+ */
+const fromZodError = (error: z.ZodError): ValidationApiError => {
+  const fieldErrors: FieldErrors = {};
+  error.issues.forEach(({ path, message }) => {
+    const field = path.join(".");
+    if (field && !fieldErrors[field]) fieldErrors[field] = message;
+  });
+
+  return createApiError<ValidationApiError>({
+    kind: "validation",
+    message: error.issues[0]?.message,
+    fieldErrors,
+  });
+};
+
+/**
+ * Normalize anything thrown by an API call into an ApiError.
+ * Already-normalized errors are returned unchanged, so this is safe to
+ * apply more than once (e.g. to a request replayed after a refresh).
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) return error;
+  if (isAxiosError(error)) return fromAxiosError(error);
+  if (error instanceof z.ZodError) return fromZodError(error);
+
+  return createApiError<UnknownApiError>({ kind: "unknown" });
+};
+
+/**
+ * Validate a request payload, failing with a validation ApiError
+ */
+export const parsePayload = <T extends z.ZodType>(
+  schema: T,
+  payload: unknown,
+): z.output<T> => {
+  const result = schema.safeParse(payload);
+  if (!result.success) throw toApiError(result.error);
+  return result.data;
+};
+
+/**
+ * Validate a response body. A body that doesn't match is the gateway's
+ * fault, not the user's, so it fails as a server error.
+ */
+export const parseResponse = <T extends z.ZodType>(
+  schema: T,
+  data: unknown,
+): z.output<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw createApiError<ServerApiError>({
+      kind: "server",
+      message: "Unexpected response from the server. Please try again.",
+    });
+  }
+  return result.data;
+};
@@ -0,0 +1,323 @@
+import { AppState, Platform } from "react-native";
+import { logger } from "../utils/logger";
+import { secureStorage } from "../utils/secureStorage";
+import { authApi } from "./authApi";
+import { exchangeRefreshToken } from "./axios";
+import { isSessionRevokedError, toApiError } from "./errors";
+
+const STORAGE_KEY = "pending-logouts";
+
+/**
+ * Give up on a revocation after this long; the tokens will have expired
+ * on their own by then
+ */
+const MAX_PENDING_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Keep at most this many revocations; the oldest are dropped first
+ */
+const MAX_PENDING_LOGOUTS = 20;
+
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+interface PendingLogout {
+  id: string;
+  token: string;
+  refreshToken: string | null;
+  queuedAt: number;
+}
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempt = 0;
+let isFlushing = false;
+let queueWrite: Promise<unknown> = Promise.resolve();
+
+/**
+ * Each entry holds a token pair, so entries are stored under their own
+ * keys (`pending-logouts.<id>`) to stay under SecureStore's 2048-byte
+ * value limit; STORAGE_KEY only lists the ids
+ */
+const entryKey = (id: string) => `${STORAGE_KEY}.${id}`;
+
+const createEntryId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const readEntry = async (id: string): Promise<PendingLogout | null> => {
+  try {
+    const stored = await secureStorage.getItem(entryKey(id));
+    return stored ? { ...(JSON.parse(stored) as PendingLogout), id } : null;
+  } catch (error) {
+    logger.warn("Discarding unreadable pending logout");
+    return null;
+  }
+};
+
+const readQueue = async (): Promise<PendingLogout[]> => {
+  try {
+    const stored = await secureStorage.getItem(STORAGE_KEY);
+    const index: unknown[] = stored ? JSON.parse(stored) : [];
+
+    // Builds before the split stored every entry inline
+    if (index.some((item) => typeof item !== "string")) {
+      return (index as Omit<PendingLogout, "id">[]).map((entry) => ({
+        ...entry,
+        id: createEntryId(),
+      }));
+    }
+
+    const entries = await Promise.all(
+      (index as string[]).map((id) => readEntry(id)),
+    );
+    return entries.filter((entry): entry is PendingLogout => !!entry);
+  } catch (error) {
+    logger.warn("Discarding unreadable pending logouts");
+    return [];
+  }
+};
+
+/**
+ * Read-modify-write the stored queue, one update at a time, so a
+ * sign-out during a retry pass isn't lost
+ */
+const updateQueue = (
+  update: (queue: PendingLogout[]) => PendingLogout[],
+): Promise<PendingLogout[]> => {
+  const result = queueWrite.then(async () => {
+    const current = await readQueue();
+    const queue = update(current);
+    const storedById = new Map(
+      current.map((entry) => [entry.id, JSON.stringify(entry)]),
+    );
+
+    for (const entry of queue) {
+      const value = JSON.stringify(entry);
+      if (storedById.get(entry.id) !== value) {
+        await secureStorage.setItem(entryKey(entry.id), value);
+      }
+    }
+
+    if (queue.length === 0) {
+      await secureStorage.removeItem(STORAGE_KEY);
+    } else {
+      await secureStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify(queue.map((entry) => entry.id)),
+      );
+    }
+
+    const remainingIds = new Set(queue.map((entry) => entry.id));
+    for (const { id } of current) {
+      if (!remainingIds.has(id)) {
+        await secureStorage.removeItem(entryKey(id));
+      }
+    }
+    return queue;
+  });
+  queueWrite = result.catch(() => undefined);
+  return result;
+};
+
+type LogoutSession = Omit<PendingLogout, "id" | "queuedAt">;
+
+/**
+ * Retry later after a connectivity or server failure; anything else
+ * means the server has nothing left to revoke
+ */
+const retryIfTransient = (
+  error: unknown,
+  session: LogoutSession,
+): LogoutSession | null => {
+  const { kind } = toApiError(error);
+  if (kind === "network" || kind === "timeout" || kind === "server") {
+    return session;
+  }
+  logger.info("Server logout not needed", { kind });
+  return null;
+};
+
+/**
+ * Log out again with a fresh token pair, so the refresh token is
+ * revoked even though the access token had already expired
+ */
+const logoutAfterRefresh = async (
+  refreshToken: string,
+): Promise<LogoutSession | null> => {
+  const tokens = await exchangeRefreshToken(refreshToken);
+  const refreshed = {
+    token: tokens.accessToken,
+    refreshToken: tokens.refreshToken ?? refreshToken,
+  };
+
+  try {
+    await authApi.logout(refreshed);
+    return null;
+  } catch (error) {
+    return retryIfTransient(error, refreshed);
+  }
+};
+
+/**
+ * Try one revocation. Resolves to null once there's nothing left to
+ * revoke, or to the session to retry later, with refreshed tokens if it
+ * had to refresh first.
+ *
+ * A 401 for an expired access token is answered by refreshing and
+ * logging out with the new pair. A revoked session, or one whose refresh
+ * token is rejected too, is already dead on the server.
+ */
+const attemptLogout = async (
+  session: LogoutSession,
+): Promise<LogoutSession | null> => {
+  try {
+    await authApi.logout(session);
+    return null;
+  } catch (error) {
+    const apiError = toApiError(error);
+    if (
+      apiError.kind !== "auth" ||
+      isSessionRevokedError(apiError) ||
+      !session.refreshToken
+    ) {
+      return retryIfTransient(apiError, session);
+    }
+
+    try {
+      return await logoutAfterRefresh(session.refreshToken);
+    } catch (refreshError) {
+      return retryIfTransient(refreshError, session);
+    }
+  }
+};
+
+/**
+ * Flush from a timer or event handler, where nothing awaits the result
+ */
+const flushInBackground = () => {
+  flushPendingLogouts().catch((error) =>
+    logger.warn("Retrying pending logouts failed", { error }),
+  );
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+  }
+
+  const delay = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** retryAttempt,
+    RETRY_MAX_DELAY_MS,
+  );
+  retryAttempt += 1;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushInBackground();
+  }, delay);
+};
+
+/**
+ * Retry every queued revocation, keeping the ones that still fail
+ */
+export const flushPendingLogouts = async () => {
+  if (isFlushing) return;
+  isFlushing = true;
+
+  try {
+    const queue = await readQueue();
+    if (queue.length === 0) return;
+
+    // Keyed by entry id: null when finished, otherwise the tokens to
+    // retry with next time
+    const results = new Map<string, LogoutSession | null>();
+    for (const entry of queue) {
+      const isStale = Date.now() - entry.queuedAt > MAX_PENDING_AGE_MS;
+      results.set(entry.id, isStale ? null : await attemptLogout(entry));
+    }
+
+    const remaining = await updateQueue((current) =>
+      current.flatMap((entry) => {
+        if (!results.has(entry.id)) {
+          return [entry];
+        }
+        const retry = results.get(entry.id);
+        return retry ? [{ ...entry, ...retry }] : [];
+      }),
+    );
+    if (remaining.length > 0) {
+      scheduleRetry();
+    } else {
+      retryAttempt = 0;
+      logger.info("Pending server logouts completed");
+    }
+  } finally {
+    isFlushing = false;
+  }
+};
+
+/**
+ * Revoke a signed-out session on the server
+ *
+ * Design Patterns Used:
+ * - Command Pattern: A revocation is stored and replayed until it lands
+ * - Queue Pattern: Offline revocations wait in secure storage, so they
+ *   survive an app restart
+ *
+ * Sign-out itself never waits for this: the session is already gone
+ * locally, the server call is best effort.
+ */
+export const revokeSessionOnServer = async (session: {
+  token: string;
+  refreshToken: string | null;
+}) => {
+  const retry = await attemptLogout(session);
+  if (!retry) {
+    return;
+  }
+
+  logger.info("Server logout failed, queued for retry");
+  await updateQueue((queue) => {
+    const next = [
+      ...queue,
+      { ...retry, id: createEntryId(), queuedAt: Date.now() },
+    ];
+    if (next.length > MAX_PENDING_LOGOUTS) {
+      logger.warn("Too many pending logouts, dropping the oldest", {
+        dropped: next.length - MAX_PENDING_LOGOUTS,
+      });
+    }
+    return next.slice(-MAX_PENDING_LOGOUTS);
+  });
+  scheduleRetry();
+};
+
+/**
+ * Retry queued revocations now and whenever the app comes back online
+ * or to the foreground
+ *
+ * Returns a cleanup function that stops retrying.
+ */
+export const startPendingLogoutRetries = (): (() => void) => {
+  flushInBackground();
+
+  const appStateSubscription = AppState.addEventListener("change", (state) => {
+    if (state === "active") {
+      flushInBackground();
+    }
+  });
+
+  const handleOnline = () => flushInBackground();
+  if (Platform.OS === "web" && typeof window !== "undefined") {
+    window.addEventListener("online", handleOnline);
+  }
+
+  return () => {
+    appStateSubscription.remove();
+    if (Platform.OS === "web" && typeof window !== "undefined") {
+      window.removeEventListener("online", handleOnline);
+    }
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+};
@@ -0,0 +1,61 @@
+import { QueryClient } from "@tanstack/react-query";
+import { useAuthStore } from "../store/authStore";
+import { logger } from "../utils/logger";
+
+/**
+ * One React Query client per account
+ *
+ * Design Patterns Used:
+ * - Registry Pattern: Clients are created on first use and kept by account
+ * - Observer Pattern: A signed-out account's cache is dropped with it
+ *
+ * The root layout hands the active account's client to
+ * QueryClientProvider, so switching accounts swaps the whole cache and
+ * cached data can never show up under another account. Switching back is
+ * instant because the previous account's cache is still there.
+ */
+const SIGNED_OUT_KEY = "signed-out";
+
+const clients = new Map<string, QueryClient>();
+
+export const getQueryClient = (userId: string | null): QueryClient => {
+  const key = userId ?? SIGNED_OUT_KEY;
+  let client = clients.get(key);
+  if (!client) {
+    client = new QueryClient();
+    clients.set(key, client);
+  }
+  return client;
+};
+
+/**
+ * Drop an account's cached queries and mutations
+ */
+export const discardQueryClient = (userId: string | null) => {
+  const key = userId ?? SIGNED_OUT_KEY;
+  clients.get(key)?.clear();
+  clients.delete(key);
+};
+
+/**
+ * Drop every account's cache (when all local data is wiped)
+ */
+export const discardAllQueryClients = () => {
+  clients.forEach((client) => client.clear());
+  clients.clear();
+};
+
+/**
+ * Whenever an account's session goes away (sign-out, failed refresh,
+ * removal from the switcher), its cache goes too
+ */
+useAuthStore.subscribe((state, previousState) => {
+  if (state.sessions === previousState.sessions) return;
+
+  Object.keys(previousState.sessions)
+    .filter((userId) => !state.sessions[userId])
+    .forEach((userId) => {
+      logger.info("Discarding query cache for signed-out account", { userId });
+      discardQueryClient(userId);
+    });
+});
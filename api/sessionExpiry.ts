@@ -0,0 +1,104 @@
+import { AppState, Platform } from "react-native";
+import { useAuthStore } from "../store/authStore";
+import { logger } from "../utils/logger";
+import { refreshSession } from "./axios";
+
+/**
+ * Refresh this long before the access token actually expires,
+ * so requests in flight don't race the expiry
+ */
+const REFRESH_LEAD_TIME_MS = 60 * 1000;
+
+/**
+ * setTimeout overflows past ~24.8 days; longer delays are re-armed
+ */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const clearExpiryTimer = () => {
+  if (expiryTimer) {
+    clearTimeout(expiryTimer);
+    expiryTimer = null;
+  }
+};
+
+/**
+ * Refresh the session if possible, otherwise sign out
+ */
+const handleExpiry = () => {
+  const { refreshToken, clearAuth } = useAuthStore.getState();
+
+  if (refreshToken) {
+    logger.info("Access token about to expire, refreshing session");
+    // A rejected refresh signs the user out inside refreshSession; a
+    // failed one is retried on the next 401, foreground or reconnect
+    refreshSession().catch(() => undefined);
+    return;
+  }
+
+  logger.info("Session expired, signing out");
+  // The root layout sends the user to login, remembering where they were
+  clearAuth();
+};
+
+/**
+ * Catch up on an expiry whose refresh failed or whose timer was
+ * suspended with the app
+ */
+const handleExpiryIfDue = () => {
+  const { expiresAt } = useAuthStore.getState();
+  if (expiresAt && expiresAt - REFRESH_LEAD_TIME_MS <= Date.now()) {
+    handleExpiry();
+  }
+};
+
+const scheduleExpiry = (expiresAt: number | null) => {
+  clearExpiryTimer();
+  if (!expiresAt) {
+    return;
+  }
+
+  const delay = Math.max(0, expiresAt - REFRESH_LEAD_TIME_MS - Date.now());
+  expiryTimer = setTimeout(
+    () =>
+      delay > MAX_TIMER_DELAY_MS ? scheduleExpiry(expiresAt) : handleExpiry(),
+    Math.min(delay, MAX_TIMER_DELAY_MS),
+  );
+};
+
+/**
+ * Keep a timer armed for the current session's expiry
+ * Observer Pattern: Re-schedules whenever the store's expiry changes, and
+ * re-checks when the app returns to the foreground or comes back online
+ *
+ * Returns a cleanup function that stops watching.
+ */
+export const startSessionExpiryWatcher = (): (() => void) => {
+  scheduleExpiry(useAuthStore.getState().expiresAt);
+
+  const unsubscribe = useAuthStore.subscribe((state, previousState) => {
+    if (state.expiresAt !== previousState.expiresAt) {
+      scheduleExpiry(state.expiresAt);
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener("change", (state) => {
+    if (state === "active") {
+      handleExpiryIfDue();
+    }
+  });
+
+  if (Platform.OS === "web" && typeof window !== "undefined") {
+    window.addEventListener("online", handleExpiryIfDue);
+  }
+
+  return () => {
+    unsubscribe();
+    appStateSubscription.remove();
+    if (Platform.OS === "web" && typeof window !== "undefined") {
+      window.removeEventListener("online", handleExpiryIfDue);
+    }
+    clearExpiryTimer();
+  };
+};
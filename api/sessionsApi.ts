@@ -0,0 +1,55 @@
+import { z } from "zod";
+import api from "./axios";
+import { parseResponse } from "./errors";
+
+/**
+ * A device signed in to the account. Location is the gateway's rough
+ * IP-based guess and may be missing.
+ */
+const sessionSchema = z.looseObject({
+  id: z.string(),
+  platform: z.string().nullish(), // "ios", "android", "web", ...
+  deviceName: z.string().nullish(), // e.g. "iPhone 15" or "Chrome on macOS"
+  location: z.string().nullish(), // e.g. "Berlin, Germany"
+  ipAddress: z.string().nullish(),
+  createdAt: z.string(),
+  lastSeenAt: z.string(),
+  current: z.boolean().default(false), // The session making the request
+});
+
+const sessionListSchema = z.union([
+  z.array(sessionSchema),
+  z.object({ sessions: z.array(sessionSchema) }).transform((d) => d.sessions),
+]);
+
+export type DeviceSession = z.infer<typeof sessionSchema>;
+
+/**
+ * Sessions API Client
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: Hides the gateway's session endpoints behind methods
+ */
+export const sessionsApi = {
+  /**
+   * Every session signed in to the current account
+   */
+  list: async () => {
+    const response = await api.get(`/auth/auth/sessions`);
+    return parseResponse(sessionListSchema, response.data);
+  },
+
+  /**
+   * Sign one device out
+   */
+  revoke: async (sessionId: string) => {
+    await api.delete(`/auth/auth/sessions/${encodeURIComponent(sessionId)}`);
+  },
+
+  /**
+   * Sign out every device except this one
+   */
+  revokeOthers: async () => {
+    await api.post(`/auth/auth/sessions/revoke-others`);
+  },
+};
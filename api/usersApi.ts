@@ -0,0 +1,223 @@
+import { Platform } from "react-native";
+import { z } from "zod";
+import { User } from "../store/authStore";
+import { AvatarFile } from "../utils/avatarPicker";
+import { Consent, consentSchema } from "./authSchemas";
+import api from "./axios";
+import { parsePayload, parseResponse } from "./errors";
+
+/**
+ * Uploads can take much longer than the default request timeout
+ */
+const AVATAR_UPLOAD_TIMEOUT_MS = 60_000;
+
+/**
+ * The signed-in user's profile. Empty optional fields may come back as
+ * null; they are normalized to undefined to match `User`.
+ */
+const userResponseSchema = z
+  .looseObject({
+    id: z.string(),
+    email: z.string(),
+    name: z.string().nullish(),
+    avatar: z.string().nullish(),
+    role: z.string().nullish(),
+    permissions: z.array(z.string()).nullish(),
+  })
+  .transform(
+    (data): User => ({
+      id: data.id,
+      email: data.email,
+      name: data.name ?? undefined,
+      avatar: data.avatar ?? undefined,
+      role: data.role ?? undefined,
+      permissions: data.permissions ?? undefined,
+    }),
+  );
+
+const updateMePayloadSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be 100 characters or fewer"),
+});
+
+export type UpdateMePayload = z.input<typeof updateMePayloadSchema>;
+
+/**
+ * A requested deletion waits out a grace period, during which signing
+ * in again and cancelling keeps the account
+ */
+const deletionStatusSchema = z.union([
+  z.object({ status: z.literal("none") }),
+  z.object({ status: z.literal("scheduled"), scheduledFor: z.string() }),
+]);
+
+export type DeletionStatus = z.infer<typeof deletionStatusSchema>;
+
+/**
+ * Data exports are built in the background; `downloadUrl` is set once
+ * the archive is ready and stops working at `expiresAt`
+ */
+const dataExportSchema = z.looseObject({
+  id: z.string(),
+  status: z.enum(["pending", "processing", "ready", "failed"]),
+  downloadUrl: z.string().nullish(),
+  expiresAt: z.string().nullish(),
+});
+
+export type DataExport = z.infer<typeof dataExportSchema>;
+
+/**
+ * The legal document versions the user last accepted, and when;
+ * null before they've accepted any (e.g. accounts created through
+ * social sign-in)
+ */
+const consentRecordSchema = z.looseObject({
+  termsVersion: z.string(),
+  privacyVersion: z.string(),
+  acceptedAt: z.string(),
+});
+
+const consentStatusSchema = z.object({
+  consent: consentRecordSchema.nullable(),
+});
+
+export type ConsentRecord = z.infer<typeof consentRecordSchema>;
+
+/**
+ * File descriptor React Native's FormData accepts in place of a Blob
+ */
+interface NativeFilePart {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * Multipart part for the avatar: React Native's FormData takes a file
+ * descriptor, the browser needs the actual bytes
+ */
+const avatarFormData = async (file: AvatarFile): Promise<FormData> => {
+  const formData = new FormData();
+  if (Platform.OS === "web") {
+    const blob = await (await fetch(file.uri)).blob();
+    formData.append("avatar", blob, file.name);
+  } else {
+    const part: NativeFilePart = {
+      uri: file.uri,
+      name: file.name,
+      type: file.mimeType,
+    };
+    formData.append("avatar", part as unknown as Blob);
+  }
+  return formData;
+};
+
+/**
+ * Users API Client
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: Hides the gateway's users endpoints behind methods
+ * - Adapter Pattern: Responses are validated and mapped onto `User`
+ */
+export const usersApi = {
+  /**
+   * Profile of the signed-in user
+   */
+  getMe: async () => {
+    const response = await api.get(`/users/users/me`);
+    return parseResponse(userResponseSchema, response.data);
+  },
+
+  /**
+   * Update the signed-in user's profile; resolves to the updated profile
+   */
+  updateMe: async (payload: UpdateMePayload) => {
+    const validatedData = parsePayload(updateMePayloadSchema, payload);
+    const response = await api.patch(`/users/users/me`, validatedData);
+    return parseResponse(userResponseSchema, response.data);
+  },
+
+  /**
+   * Whether the signed-in account is scheduled for deletion
+   */
+  getDeletionStatus: async () => {
+    const response = await api.get(`/users/users/me/deletion`);
+    return parseResponse(deletionStatusSchema, response.data);
+  },
+
+  /**
+   * Schedule the signed-in account for deletion. Needs a token from
+   * `authApi.reauthenticate`; resolves to the scheduled status.
+   */
+  scheduleDeletion: async (payload: { reauthToken: string }) => {
+    const response = await api.post(`/users/users/me/deletion`, payload);
+    return parseResponse(deletionStatusSchema, response.data);
+  },
+
+  /**
+   * Keep the account: cancel a deletion still in its grace period
+   */
+  cancelDeletion: async () => {
+    await api.delete(`/users/users/me/deletion`);
+  },
+
+  /**
+   * Start building an archive of the signed-in user's data
+   */
+  requestDataExport: async () => {
+    const response = await api.post(`/users/users/me/exports`);
+    return parseResponse(dataExportSchema, response.data);
+  },
+
+  /**
+   * Poll a data export job
+   */
+  getDataExport: async (exportId: string) => {
+    const response = await api.get(
+      `/users/users/me/exports/${encodeURIComponent(exportId)}`,
+    );
+    return parseResponse(dataExportSchema, response.data);
+  },
+
+  /**
+   * Which versions of the legal documents the signed-in user accepted
+   */
+  getConsent: async () => {
+    const response = await api.get(`/users/users/me/consent`);
+    return parseResponse(consentStatusSchema, response.data).consent;
+  },
+
+  /**
+   * Record acceptance of the current legal documents; resolves to the
+   * stored record
+   */
+  acceptConsent: async (consent: Consent) => {
+    const validatedData = parsePayload(consentSchema, consent);
+    const response = await api.post(`/users/users/me/consent`, validatedData);
+    return parseResponse(consentRecordSchema, response.data);
+  },
+
+  /**
+   * Replace the signed-in user's avatar; resolves to the updated profile.
+   * `onProgress` receives the uploaded fraction, from 0 to 1.
+   */
+  uploadAvatar: async (
+    file: AvatarFile,
+    onProgress?: (progress: number) => void,
+  ) => {
+    const formData = await avatarFormData(file);
+    const response = await api.put(`/users/users/me/avatar`, formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+      timeout: AVATAR_UPLOAD_TIMEOUT_MS,
+      onUploadProgress: (event) => {
+        if (event.total) {
+          onProgress?.(event.loaded / event.total);
+        }
+      },
+    });
+    return parseResponse(userResponseSchema, response.data);
+  },
+};
@@ -0,0 +1,52 @@
+import { ConsentScreen } from "@/components/auth/ConsentScreen";
+import { ThemedView } from "@/components/ThemedView";
+import { useConsent } from "@/hooks/useConsent";
+import { authSelectors, useAuthStore } from "@/store/authStore";
+import { Stack } from "expo-router";
+import { ActivityIndicator, StyleSheet } from "react-native";
+
+/**
+ * Protected Routes Layout
+ *
+ * Everything here needs a signed-in account. The root layout redirects
+ * signed-out users to login; until it has, nothing protected renders.
+ * Screens that also need a role or permission wrap themselves in
+ * AuthGuard. Until the current legal documents are accepted, the
+ * re-consent screen takes the place of every protected screen.
+ */
+export default function ProtectedLayout() {
+  const hasHydrated = useAuthStore(authSelectors.hasHydrated);
+  const isAuthenticated = useAuthStore(authSelectors.isAuthenticated);
+  const { needsConsent, statusLoading } = useConsent();
+
+  if (!hasHydrated || statusLoading) {
+    return (
+      <ThemedView style={styles.container}>
+        <ActivityIndicator size="large" />
+      </ThemedView>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  if (needsConsent) {
+    return <ConsentScreen />;
+  }
+
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="index" />
+      <Stack.Screen name="account" />
+    </Stack>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
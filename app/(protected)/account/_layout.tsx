@@ -0,0 +1,74 @@
+import { Colors } from "@/constants/Colors";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { Stack } from "expo-router";
+
+/**
+ * Account Stack Layout
+ *
+ * Screens for managing the signed-in account. Access is handled by
+ * the (protected) group.
+ */
+export default function AccountLayout() {
+  const colorScheme = useColorScheme();
+
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        presentation: "card",
+        animation: "slide_from_right",
+        contentStyle: {
+          backgroundColor: Colors[colorScheme ?? "light"].background,
+        },
+      }}
+    >
+      {/* Account Overview Screen */}
+      <Stack.Screen
+        name="index"
+        options={{
+          title: "Account",
+        }}
+      />
+
+      {/* Profile Editing Screen */}
+      <Stack.Screen
+        name="profile"
+        options={{
+          title: "Profile",
+        }}
+      />
+
+      {/* Signed-In Devices Screen */}
+      <Stack.Screen
+        name="sessions"
+        options={{
+          title: "Devices",
+        }}
+      />
+
+      {/* Data Export Screen */}
+      <Stack.Screen
+        name="export"
+        options={{
+          title: "Download Your Data",
+        }}
+      />
+
+      {/* Account Deletion Screen */}
+      <Stack.Screen
+        name="delete"
+        options={{
+          title: "Delete Account",
+        }}
+      />
+
+      {/* Two-Factor Enrollment Screen */}
+      <Stack.Screen
+        name="two-factor"
+        options={{
+          title: "Two-Factor Authentication",
+        }}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,11 @@
+import { DeleteAccountScreen } from "@/components/account/DeleteAccountScreen";
+
+/**
+ * Delete Account Route Component
+ *
+ * Signed-in users only; the (protected) group sends everyone else to
+ * login.
+ */
+export default function DeleteAccount() {
+  return <DeleteAccountScreen />;
+}
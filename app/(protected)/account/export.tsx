@@ -0,0 +1,11 @@
+import { DataExportScreen } from "@/components/account/DataExportScreen";
+
+/**
+ * Data Export Route Component
+ *
+ * Signed-in users only; the (protected) group sends everyone else to
+ * login.
+ */
+export default function DataExport() {
+  return <DataExportScreen />;
+}
@@ -0,0 +1,11 @@
+import { AccountScreen } from "@/components/account/AccountScreen";
+
+/**
+ * Account Route Component
+ *
+ * Signed-in users only; the (protected) group sends everyone else to
+ * login.
+ */
+export default function Account() {
+  return <AccountScreen />;
+}
@@ -0,0 +1,11 @@
+import { ProfileScreen } from "@/components/account/ProfileScreen";
+
+/**
+ * Profile Route Component
+ *
+ * Signed-in users only; the (protected) group sends everyone else to
+ * login.
+ */
+export default function Profile() {
+  return <ProfileScreen />;
+}
@@ -0,0 +1,11 @@
+import { SessionsScreen } from "@/components/account/SessionsScreen";
+
+/**
+ * Signed-In Devices Route Component
+ *
+ * Signed-in users only; the (protected) group sends everyone else to
+ * login.
+ */
+export default function Sessions() {
+  return <SessionsScreen />;
+}
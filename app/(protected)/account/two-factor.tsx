@@ -0,0 +1,11 @@
+import { TwoFactorSetupScreen } from "@/components/auth/TwoFactorSetupScreen";
+
+/**
+ * Two-Factor Enrollment Route Component
+ *
+ * Signed-in users only; the (protected) group sends everyone else to
+ * login.
+ */
+export default function TwoFactorSetup() {
+  return <TwoFactorSetupScreen />;
+}
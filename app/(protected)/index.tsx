@@ -0,0 +1,11 @@
+import { Redirect } from "expo-router";
+
+/**
+ * Home Route Component
+ *
+ * Default destination after signing in; the account overview is the
+ * only signed-in area for now.
+ */
+export default function Home() {
+  return <Redirect href="/account" />;
+}
@@ -0,0 +1,18 @@
+import { Stack } from "expo-router";
+
+/**
+ * Public Routes Layout
+ *
+ * Reachable without a session: the auth screens and the OAuth redirect
+ * targets. Signed-in users are sent on from the sign-in screens by the
+ * root layout.
+ */
+export default function PublicLayout() {
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="auth" />
+      <Stack.Screen name="oauth/callback" />
+      <Stack.Screen name="oauthredirect" />
+    </Stack>
+  );
+}
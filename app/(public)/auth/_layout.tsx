@@ -41,6 +41,46 @@ export default function AuthLayout() {
           title: "Create Account",
         }}
       />
+
+      {/* Forgot Password Screen */}
+      <Stack.Screen
+        name="forgot-password"
+        options={{
+          title: "Forgot Password",
+        }}
+      />
+
+      {/* Reset Password Screen (opened from the email deep link) */}
+      <Stack.Screen
+        name="reset-password"
+        options={{
+          title: "Reset Password",
+        }}
+      />
+
+      {/* Verify Email Screen (after signup and from the email deep link) */}
+      <Stack.Screen
+        name="verify-email"
+        options={{
+          title: "Verify Email",
+        }}
+      />
+
+      {/* Magic Link Screen (check inbox, and the sign-in link deep link) */}
+      <Stack.Screen
+        name="magic-link"
+        options={{
+          title: "Sign-In Link",
+        }}
+      />
+
+      {/* Two-Factor Challenge Screen (after a login that requires 2FA) */}
+      <Stack.Screen
+        name="two-factor"
+        options={{
+          title: "Two-Factor Authentication",
+        }}
+      />
     </Stack>
   );
 }
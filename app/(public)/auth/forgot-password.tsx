@@ -0,0 +1,11 @@
+import { ForgotPasswordScreen } from "@/components/auth/ForgotPasswordScreen";
+
+/**
+ * Forgot Password Route Component
+ *
+ * This file serves as the route entry point for the forgot password screen.
+ * It follows the Single Responsibility Principle by only handling routing concerns.
+ */
+export default function ForgotPassword() {
+  return <ForgotPasswordScreen />;
+}
@@ -1,4 +1,5 @@
 import { LoginScreen } from "@/components/auth/LoginScreen";
+import { useLocalSearchParams } from "expo-router";
 
 /**
  * Login Route Component
@@ -7,5 +8,7 @@ import { LoginScreen } from "@/components/auth/LoginScreen";
  * It follows the Single Responsibility Principle by only handling routing concerns.
  */
 export default function Login() {
-  return <LoginScreen />;
+  const { email } = useLocalSearchParams<{ email?: string }>();
+
+  return <LoginScreen initialEmail={email} />;
 }
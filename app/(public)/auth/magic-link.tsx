@@ -0,0 +1,19 @@
+import { MagicLinkScreen } from "@/components/auth/MagicLinkScreen";
+import { useLocalSearchParams } from "expo-router";
+
+/**
+ * Magic Link Route Component
+ *
+ * Reached after requesting a sign-in link (`email`, `sent`) and from the
+ * link itself, `frontend://auth/magic-link?code=...` (`code`).
+ * It only reads the link parameters and hands them to the screen.
+ */
+export default function MagicLink() {
+  const { email, code, sent } = useLocalSearchParams<{
+    email?: string;
+    code?: string;
+    sent?: string;
+  }>();
+
+  return <MagicLinkScreen email={email} code={code} emailSent={!!sent} />;
+}
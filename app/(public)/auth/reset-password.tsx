@@ -0,0 +1,16 @@
+import { ResetPasswordScreen } from "@/components/auth/ResetPasswordScreen";
+import { useLocalSearchParams } from "expo-router";
+
+/**
+ * Reset Password Route Component
+ *
+ * Target of the password reset email link:
+ * `frontend://auth/reset-password?token=...` on native (scheme from app.json)
+ * or `/auth/reset-password?token=...` on web.
+ * It only reads the token from the link and hands it to the screen.
+ */
+export default function ResetPassword() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+
+  return <ResetPasswordScreen token={token} />;
+}
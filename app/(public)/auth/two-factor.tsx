@@ -0,0 +1,11 @@
+import { TwoFactorScreen } from "@/components/auth/TwoFactorScreen";
+
+/**
+ * Two-Factor Route Component
+ *
+ * Reached from login when the account has two-factor authentication.
+ * The pending challenge comes from the auth store, not from the URL.
+ */
+export default function TwoFactor() {
+  return <TwoFactorScreen />;
+}
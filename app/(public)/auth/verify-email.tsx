@@ -0,0 +1,20 @@
+import { VerifyEmailScreen } from "@/components/auth/VerifyEmailScreen";
+import { useLocalSearchParams } from "expo-router";
+
+/**
+ * Verify Email Route Component
+ *
+ * Reached after signup (`email`, `sent`), after a login refused for an
+ * unverified email (`email`), and from the verification email link
+ * `frontend://auth/verify-email?token=...` (`token`).
+ * It only reads the link parameters and hands them to the screen.
+ */
+export default function VerifyEmail() {
+  const { email, token, sent } = useLocalSearchParams<{
+    email?: string;
+    token?: string;
+    sent?: string;
+  }>();
+
+  return <VerifyEmailScreen email={email} token={token} emailSent={!!sent} />;
+}
@@ -0,0 +1,29 @@
+import { ThemedView } from "@/components/ThemedView";
+import * as WebBrowser from "expo-web-browser";
+import { ActivityIndicator, StyleSheet } from "react-native";
+
+// Hands the redirect back to the window that opened the sign-in popup (web)
+WebBrowser.maybeCompleteAuthSession();
+
+/**
+ * OAuth Redirect Route Component
+ *
+ * Target of the OAuth redirect URI. On web it completes the popup flow;
+ * on native the auth session intercepts the redirect before it gets here,
+ * so this only renders if the link is opened directly.
+ */
+export default function OAuthCallback() {
+  return (
+    <ThemedView style={styles.container}>
+      <ActivityIndicator size="large" />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
@@ -0,0 +1,5 @@
+/**
+ * Google's native redirect (`<application id>:/oauthredirect`); handled
+ * exactly like the default OAuth callback
+ */
+export { default } from "./oauth/callback";
@@ -3,19 +3,40 @@ import {
   DefaultTheme,
   ThemeProvider,
 } from "@react-navigation/native";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { useFonts } from "expo-font";
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
+import { useEffect } from "react";
 import "react-native-reanimated";
 // import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
+import { startPendingLogoutRetries } from "@/api/logoutQueue";
+import { getQueryClient } from "@/api/queryClient";
+import { startSessionExpiryWatcher } from "@/api/sessionExpiry";
+import { useAuthRedirect } from "@/hooks/useAuthRedirect";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { authSelectors, useAuthStore } from "@/store/authStore";
+import { startAuthSync } from "@/store/authSync";
 
 export default function RootLayout() {
-  // Initializing queryClient
-  const queryClient = new QueryClient();
+  // Each account gets its own query cache, swapped on account switch
+  const activeUserId = useAuthStore(authSelectors.activeUserId);
+  const queryClient = getQueryClient(activeUserId);
 
   const colorScheme = useColorScheme();
+
+  // Send signed-out users to login and signed-in users back on their way
+  useAuthRedirect();
+
+  // Refresh or end the session shortly before the access token expires
+  useEffect(() => startSessionExpiryWatcher(), []);
+
+  // Finish server-side sign-outs that failed while offline
+  useEffect(() => startPendingLogoutRetries(), []);
+
+  // Sign in and out of every open tab together (web)
+  useEffect(() => startAuthSync(), []);
+
   const [loaded] = useFonts({
     SpaceMono: require("../assets/fonts/SpaceMono-Regular.ttf"),
   });
@@ -29,7 +50,8 @@ export default function RootLayout() {
     <QueryClientProvider client={queryClient}>
       <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
         <Stack>
-          <Stack.Screen name="auth" options={{ headerShown: false }} />
+          <Stack.Screen name="(public)" options={{ headerShown: false }} />
+          <Stack.Screen name="(protected)" options={{ headerShown: false }} />
           <Stack.Screen name="+not-found" />
         </Stack>
         <StatusBar style="auto" animated={true} />
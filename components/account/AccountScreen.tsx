@@ -0,0 +1,187 @@
+import { AuthHeader } from "@/components/auth/AuthHeader";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormButton } from "@/components/auth/FormButton";
+import { FormError } from "@/components/auth/FormError";
+import { ThemedText } from "@/components/ThemedText";
+import { useAuth } from "@/hooks/useAuth";
+import { usePasskeyRegistration } from "@/hooks/usePasskeys";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { authSelectors, useAuthStore } from "@/store/authStore";
+import { COMMON_FONT_SIZES, COMMON_SPACING } from "@/utils/responsive";
+import { router } from "expo-router";
+import React, { useCallback, useState } from "react";
+import { StyleSheet, View } from "react-native";
+import { AccountSwitcher } from "./AccountSwitcher";
+
+/**
+ * Account Screen Component
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: One place for the signed-in user's account actions
+ * - Command Pattern: Encapsulates passkey registration and sign-out
+ * - Composite Pattern: Account switcher and security sections
+ *
+ * Passkey registration is only offered where the platform supports it
+ * (the web build).
+ */
+export const AccountScreen: React.FC = () => {
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const user = useAuthStore(authSelectors.user);
+  const displayName = useAuthStore(authSelectors.userDisplayName);
+  const { logout } = useAuth();
+  const { registerPasskey, isSupported, isRegistering } =
+    usePasskeyRegistration();
+
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const successColor = useThemeColor(
+    { light: "#28a745", dark: "#30d158" },
+    "text",
+  );
+
+  const handleAddPasskey = useCallback(async () => {
+    setMessage(null);
+    setError(null);
+
+    const result = await registerPasskey();
+    switch (result.type) {
+      case "success":
+        setMessage("Passkey added. You can now use it to sign in.");
+        break;
+      case "cancelled":
+        setError("Passkey setup was cancelled.");
+        break;
+      case "error":
+        setError(result.message);
+        break;
+    }
+  }, [registerPasskey]);
+
+  const handleLogout = useCallback(() => {
+    logout();
+  }, [logout]);
+
+  return (
+    <AuthLayout
+      headerContent={
+        <AuthHeader
+          icon="person-circle-outline"
+          title={displayName}
+          subtitle={user?.email}
+        />
+      }
+    >
+      <FormButton
+        title="Edit profile"
+        onPress={() => router.push("/account/profile")}
+        variant="outline"
+        leftIcon="create-outline"
+        containerStyle={styles.profileButton}
+      />
+
+      <View style={styles.section}>
+        <AccountSwitcher title="Accounts" />
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText style={[styles.sectionTitle, { color: subtitleColor }]}>
+          Security
+        </ThemedText>
+
+        <FormError message={error || ""} visible={!!error} />
+
+        {message && (
+          <ThemedText style={[styles.message, { color: successColor }]}>
+            {message}
+          </ThemedText>
+        )}
+
+        <FormButton
+          title="Two-factor authentication"
+          onPress={() => router.push("/account/two-factor")}
+          variant="outline"
+          leftIcon="shield-checkmark-outline"
+          containerStyle={styles.button}
+        />
+
+        <FormButton
+          title="Signed-in devices"
+          onPress={() => router.push("/account/sessions")}
+          variant="outline"
+          leftIcon="laptop-outline"
+          containerStyle={styles.button}
+        />
+
+        {isSupported && (
+          <FormButton
+            title="Add a passkey"
+            onPress={handleAddPasskey}
+            loading={isRegistering}
+            disabled={isRegistering}
+            variant="outline"
+            leftIcon="finger-print-outline"
+            containerStyle={styles.button}
+          />
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText style={[styles.sectionTitle, { color: subtitleColor }]}>
+          Privacy
+        </ThemedText>
+
+        <FormButton
+          title="Download my data"
+          onPress={() => router.push("/account/export")}
+          variant="outline"
+          leftIcon="download-outline"
+          containerStyle={styles.button}
+        />
+
+        <FormButton
+          title="Delete my account"
+          onPress={() => router.push("/account/delete")}
+          variant="ghost"
+          leftIcon="trash-outline"
+          containerStyle={styles.button}
+        />
+      </View>
+
+      <FormButton
+        title="Sign Out"
+        onPress={handleLogout}
+        variant="ghost"
+        leftIcon="log-out-outline"
+        containerStyle={styles.button}
+      />
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    width: "100%",
+    marginBottom: COMMON_SPACING.lg,
+  },
+  sectionTitle: {
+    fontSize: COMMON_FONT_SIZES.sm,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    marginBottom: COMMON_SPACING.sm,
+  },
+  message: {
+    textAlign: "center",
+    fontSize: COMMON_FONT_SIZES.sm,
+    marginVertical: COMMON_SPACING.sm,
+  },
+  button: {
+    marginTop: COMMON_SPACING.sm,
+  },
+  profileButton: {
+    marginBottom: COMMON_SPACING.lg,
+  },
+});
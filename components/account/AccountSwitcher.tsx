@@ -0,0 +1,214 @@
+import { FormButton } from "@/components/auth/FormButton";
+import { ThemedText } from "@/components/ThemedText";
+import { AccountListItem, useAccounts } from "@/hooks/useAccounts";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  COMMON_BORDER_RADIUS,
+  COMMON_FONT_SIZES,
+  COMMON_SPACING,
+  responsiveDimensions,
+} from "@/utils/responsive";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+
+/**
+ * AccountSwitcher Props Interface
+ */
+export interface AccountSwitcherProps {
+  title?: string;
+  showAddAccount?: boolean;
+  onSwitch?: (userId: string) => void;
+}
+
+interface AccountRowProps {
+  account: AccountListItem;
+  isActive: boolean;
+  onPress: () => void;
+  onRemove: () => void;
+}
+
+/**
+ * Single account entry: initial, name and email, active marker
+ */
+const AccountRow: React.FC<AccountRowProps> = ({
+  account,
+  isActive,
+  onPress,
+  onRemove,
+}) => {
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const rowColor = useThemeColor(
+    { light: "#f8f9fa", dark: "#2c2c2e" },
+    "background",
+  );
+  const tintColor = useThemeColor(
+    { light: "#007AFF", dark: "#0a84ff" },
+    "tint",
+  );
+
+  const email = account.user?.email ?? "Unknown account";
+  const name = account.user?.name || email.split("@")[0];
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.row,
+        { backgroundColor: rowColor },
+        isActive && { borderColor: tintColor, borderWidth: 2 },
+      ]}
+      onPress={onPress}
+      disabled={isActive}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityState={{ selected: isActive }}
+      accessibilityLabel={`Switch to ${email}`}
+    >
+      <View style={[styles.avatar, { backgroundColor: tintColor }]}>
+        <ThemedText style={styles.avatarText}>
+          {name.charAt(0).toUpperCase()}
+        </ThemedText>
+      </View>
+
+      <View style={styles.details}>
+        <ThemedText style={styles.name} numberOfLines={1}>
+          {name}
+        </ThemedText>
+        <ThemedText
+          style={[styles.email, { color: subtitleColor }]}
+          numberOfLines={1}
+        >
+          {email}
+        </ThemedText>
+      </View>
+
+      {isActive ? (
+        <Ionicons
+          name="checkmark-circle"
+          size={responsiveDimensions.fontSize(22)}
+          color={tintColor}
+        />
+      ) : (
+        <TouchableOpacity
+          onPress={onRemove}
+          style={styles.removeButton}
+          accessibilityLabel={`Sign out of ${email}`}
+        >
+          <Ionicons
+            name="close"
+            size={responsiveDimensions.fontSize(20)}
+            color={subtitleColor}
+          />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * Account Switcher Component
+ *
+ * Design Patterns Used:
+ * - Composite Pattern: One row per signed-in account
+ * - Command Pattern: Switch, add and remove account actions
+ *
+ * Renders nothing when there's no account to show.
+ */
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({
+  title,
+  showAddAccount = true,
+  onSwitch,
+}) => {
+  const { accounts, activeUserId, switchAccount, addAccount, removeAccount } =
+    useAccounts();
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+
+  if (accounts.length === 0 && !showAddAccount) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {title && accounts.length > 0 && (
+        <ThemedText style={[styles.title, { color: subtitleColor }]}>
+          {title}
+        </ThemedText>
+      )}
+
+      {accounts.map((account) => (
+        <AccountRow
+          key={account.userId}
+          account={account}
+          isActive={account.userId === activeUserId}
+          onPress={() => {
+            if (switchAccount(account.userId)) {
+              onSwitch?.(account.userId);
+            }
+          }}
+          onRemove={() => removeAccount(account.userId)}
+        />
+      ))}
+
+      {showAddAccount && (
+        <FormButton
+          title="Add another account"
+          onPress={addAccount}
+          variant="ghost"
+          leftIcon="person-add-outline"
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: "100%",
+  },
+  title: {
+    fontSize: COMMON_FONT_SIZES.sm,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    marginBottom: COMMON_SPACING.sm,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: COMMON_SPACING.sm,
+    marginBottom: COMMON_SPACING.sm,
+    borderRadius: COMMON_BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+  avatar: {
+    width: responsiveDimensions.spacing(36),
+    height: responsiveDimensions.spacing(36),
+    borderRadius: responsiveDimensions.spacing(18),
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: COMMON_SPACING.sm,
+  },
+  avatarText: {
+    color: "#fff",
+    fontWeight: "bold",
+  },
+  details: {
+    flex: 1,
+  },
+  name: {
+    fontSize: COMMON_FONT_SIZES.md,
+    fontWeight: "600",
+  },
+  email: {
+    fontSize: COMMON_FONT_SIZES.sm,
+  },
+  removeButton: {
+    padding: COMMON_SPACING.xs,
+  },
+});
@@ -0,0 +1,123 @@
+import { AuthHeader } from "@/components/auth/AuthHeader";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormButton } from "@/components/auth/FormButton";
+import { FormError } from "@/components/auth/FormError";
+import { ThemedText } from "@/components/ThemedText";
+import { useDataExport } from "@/hooks/useDataExport";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { COMMON_FONT_SIZES, COMMON_SPACING } from "@/utils/responsive";
+import React, { useCallback, useState } from "react";
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+
+/**
+ * Data Export Screen Component
+ *
+ * Design Patterns Used:
+ * - State Pattern: Request, preparing, ready and failed states
+ * - Command Pattern: Request and save the export
+ *
+ * The archive is built in the background; the job is polled while this
+ * screen is open and the file is saved once it's ready.
+ */
+export const DataExportScreen: React.FC = () => {
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const {
+    requestExport,
+    requestLoading,
+    requestError,
+    job,
+    isPreparing,
+    pollError,
+    saveExport,
+    isSaving,
+  } = useDataExport();
+
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+
+  const handleSave = useCallback(async () => {
+    setSaveError(null);
+    setSaveError(await saveExport());
+  }, [saveExport]);
+
+  const error = saveError || requestError?.message || pollError?.message;
+  const isReady = job?.status === "ready" && !!job.downloadUrl;
+
+  return (
+    <AuthLayout
+      headerContent={
+        <AuthHeader
+          icon="download-outline"
+          title="Download Your Data"
+          subtitle="Get a copy of your profile and account activity as a ZIP archive"
+        />
+      }
+    >
+      <FormError message={error || ""} visible={!!error} />
+
+      {isPreparing && (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+          <ThemedText style={[styles.paragraph, { color: subtitleColor }]}>
+            Preparing your archive. This can take a few minutes; you can leave
+            this screen open.
+          </ThemedText>
+        </View>
+      )}
+
+      {isReady && (
+        <>
+          <ThemedText style={[styles.paragraph, { color: subtitleColor }]}>
+            Your archive is ready.
+            {job.expiresAt
+              ? ` The link works until ${new Date(job.expiresAt).toLocaleString()}.`
+              : ""}
+          </ThemedText>
+          <FormButton
+            title="Save Archive"
+            onPress={handleSave}
+            loading={isSaving}
+            disabled={isSaving}
+            variant="primary"
+            leftIcon="download-outline"
+            containerStyle={styles.button}
+          />
+        </>
+      )}
+
+      {job?.status === "failed" && (
+        <ThemedText style={[styles.paragraph, { color: subtitleColor }]}>
+          We couldn&apos;t build your archive. Please request it again.
+        </ThemedText>
+      )}
+
+      {!isPreparing && !isReady && (
+        <FormButton
+          title="Request My Data"
+          onPress={() => requestExport()}
+          loading={requestLoading}
+          disabled={requestLoading}
+          variant="primary"
+          containerStyle={styles.button}
+        />
+      )}
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    alignItems: "center",
+    paddingVertical: COMMON_SPACING.lg,
+  },
+  paragraph: {
+    textAlign: "center",
+    fontSize: COMMON_FONT_SIZES.md,
+    marginVertical: COMMON_SPACING.md,
+  },
+  button: {
+    marginTop: COMMON_SPACING.md,
+  },
+});
@@ -0,0 +1,307 @@
+import { AuthHeader } from "@/components/auth/AuthHeader";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormButton } from "@/components/auth/FormButton";
+import { FormError } from "@/components/auth/FormError";
+import { FormInput } from "@/components/auth/FormInput";
+import { OtpInput } from "@/components/auth/OtpInput";
+import { ThemedText } from "@/components/ThemedText";
+import { useAccountDeletion } from "@/hooks/useAccountDeletion";
+import { useCooldown } from "@/hooks/useCooldown";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { authSelectors, useAuthStore } from "@/store/authStore";
+import { COMMON_FONT_SIZES, COMMON_SPACING } from "@/utils/responsive";
+import React, { useCallback, useState } from "react";
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+
+const REAUTH_CODE_LENGTH = 6;
+const RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * How the user proves it's them before deleting: their password, or a
+ * code emailed to accounts that sign in without one
+ */
+type ReauthMethod = "password" | "code";
+
+/**
+ * Delete Account Screen Component
+ *
+ * Design Patterns Used:
+ * - State Pattern: Confirm form, or the pending deletion with a cancel
+ * - Command Pattern: Schedule and cancel deletion
+ *
+ * The password is asked for again before scheduling; accounts without
+ * one (social, magic link, passkey) get a code by email instead. Once the
+ * gateway confirms, every account is signed out and local data is wiped
+ * (useAccountDeletion), so the root layout takes the user to login.
+ */
+export const DeleteAccountScreen: React.FC = () => {
+  const [method, setMethod] = useState<ReauthMethod>("password");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [credentialError, setCredentialError] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const user = useAuthStore(authSelectors.user);
+  const resendCooldown = useCooldown(RESEND_COOLDOWN_SECONDS);
+
+  const {
+    status,
+    statusLoading,
+    statusError,
+    refetchStatus,
+    scheduleDeletion,
+    scheduleLoading,
+    requestReauthCode,
+    requestReauthCodeLoading,
+    cancelDeletion,
+    cancelLoading,
+  } = useAccountDeletion();
+
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const dangerColor = useThemeColor(
+    { light: "#dc3545", dark: "#ff453a" },
+    "text",
+  );
+
+  const handleDelete = useCallback(
+    (enteredCode: string = code) => {
+      setError(null);
+      setCredentialError(undefined);
+      if (method === "password" ? !password : !enteredCode) {
+        setCredentialError(
+          method === "password"
+            ? "Enter your password to confirm"
+            : "Enter the code from the email",
+        );
+        return;
+      }
+
+      scheduleDeletion(
+        method === "password" ? { password } : { code: enteredCode },
+        {
+          onError: (deleteError) => {
+            // A wrong password or code comes back from the
+            // re-authentication step
+            if (deleteError.kind === "auth") {
+              setCredentialError(
+                method === "password"
+                  ? "Incorrect password"
+                  : "This code is incorrect or has expired",
+              );
+            } else if (deleteError.kind === "validation") {
+              setCredentialError(
+                deleteError.fieldErrors[method] ?? deleteError.message,
+              );
+            } else {
+              setError(deleteError.message);
+            }
+          },
+        },
+      );
+    },
+    [method, password, code, scheduleDeletion],
+  );
+
+  const handleSendCode = useCallback(() => {
+    setError(null);
+    setMessage(null);
+    setCredentialError(undefined);
+    setMethod("code");
+
+    requestReauthCode(undefined, {
+      onSuccess: () => {
+        resendCooldown.start();
+        setMessage(
+          user?.email
+            ? `We've emailed a code to ${user.email}.`
+            : "We've emailed you a code.",
+        );
+      },
+      onError: (sendError) => setError(sendError.message),
+    });
+  }, [requestReauthCode, resendCooldown, user?.email]);
+
+  const handleUsePassword = useCallback(() => {
+    setError(null);
+    setMessage(null);
+    setCredentialError(undefined);
+    setCode("");
+    setMethod("password");
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    setError(null);
+    cancelDeletion(undefined, {
+      onError: (cancelError) => setError(cancelError.message),
+    });
+  }, [cancelDeletion]);
+
+  const header = (
+    <AuthHeader
+      icon="trash-outline"
+      title="Delete Account"
+      subtitle="Permanently delete your account and all of its data"
+    />
+  );
+
+  if (statusLoading || (!status && !statusError)) {
+    return (
+      <AuthLayout headerContent={header}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      </AuthLayout>
+    );
+  }
+
+  if (!status) {
+    return (
+      <AuthLayout headerContent={header}>
+        <FormError message={statusError?.message ?? ""} />
+        <FormButton
+          title="Try Again"
+          onPress={() => refetchStatus()}
+          variant="primary"
+          containerStyle={styles.button}
+        />
+      </AuthLayout>
+    );
+  }
+
+  // Already scheduled: offer to keep the account
+  if (status.status === "scheduled") {
+    return (
+      <AuthLayout headerContent={header}>
+        <ThemedText style={[styles.paragraph, { color: dangerColor }]}>
+          Your account is scheduled for deletion on{" "}
+          {new Date(status.scheduledFor).toLocaleDateString()}.
+        </ThemedText>
+        <ThemedText style={[styles.paragraph, { color: subtitleColor }]}>
+          Until then you can cancel and keep everything as it is.
+        </ThemedText>
+
+        <FormError message={error || ""} visible={!!error} />
+
+        <FormButton
+          title="Cancel Deletion"
+          onPress={handleCancel}
+          loading={cancelLoading}
+          disabled={cancelLoading}
+          variant="primary"
+          leftIcon="arrow-undo-outline"
+          containerStyle={styles.button}
+        />
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout headerContent={header}>
+      <ThemedText style={[styles.paragraph, { color: subtitleColor }]}>
+        Your profile, sessions and everything linked to your account will be
+        deleted after a grace period. Until then you can sign in and cancel.
+        You&apos;ll be signed out on every device.
+      </ThemedText>
+
+      <FormError message={error || ""} visible={!!error} />
+
+      {message && (
+        <ThemedText style={[styles.paragraph, { color: subtitleColor }]}>
+          {message}
+        </ThemedText>
+      )}
+
+      {method === "password" ? (
+        <FormInput
+          label="Password"
+          placeholder="Confirm your password"
+          value={password}
+          onChangeText={(text) => {
+            setPassword(text);
+            setCredentialError(undefined);
+          }}
+          error={credentialError}
+          leftIcon="lock-closed-outline"
+          isPassword
+          autoComplete="current-password"
+          textContentType="password"
+          returnKeyType="done"
+          onSubmitEditing={() => handleDelete()}
+        />
+      ) : (
+        <OtpInput
+          label="Confirmation code"
+          value={code}
+          onChangeText={(text) => {
+            setCode(text);
+            setCredentialError(undefined);
+          }}
+          onComplete={handleDelete}
+          length={REAUTH_CODE_LENGTH}
+          error={credentialError}
+          editable={!scheduleLoading}
+          autoFocus
+        />
+      )}
+
+      <FormButton
+        title="Delete My Account"
+        onPress={() => handleDelete()}
+        loading={scheduleLoading}
+        disabled={scheduleLoading}
+        variant="outline"
+        leftIcon="trash-outline"
+        containerStyle={styles.button}
+        textStyle={{ color: dangerColor }}
+      />
+
+      {method === "password" ? (
+        <FormButton
+          title="No password? Email me a code"
+          onPress={handleSendCode}
+          loading={requestReauthCodeLoading}
+          disabled={requestReauthCodeLoading}
+          variant="ghost"
+        />
+      ) : (
+        <>
+          <FormButton
+            title={
+              resendCooldown.isCoolingDown
+                ? `Resend code in ${resendCooldown.remaining}s`
+                : "Resend code"
+            }
+            onPress={handleSendCode}
+            loading={requestReauthCodeLoading}
+            disabled={resendCooldown.isCoolingDown || requestReauthCodeLoading}
+            variant="ghost"
+          />
+          <FormButton
+            title="Use my password instead"
+            onPress={handleUsePassword}
+            variant="ghost"
+          />
+        </>
+      )}
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    alignItems: "center",
+    paddingVertical: COMMON_SPACING.xl,
+  },
+  paragraph: {
+    textAlign: "center",
+    fontSize: COMMON_FONT_SIZES.md,
+    marginBottom: COMMON_SPACING.md,
+  },
+  button: {
+    marginTop: COMMON_SPACING.md,
+  },
+});
@@ -0,0 +1,266 @@
+import { AuthHeader } from "@/components/auth/AuthHeader";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormButton } from "@/components/auth/FormButton";
+import { FormError } from "@/components/auth/FormError";
+import { FormInput } from "@/components/auth/FormInput";
+import { ThemedText } from "@/components/ThemedText";
+import { useAvatarUpload, useMe, useUpdateMe } from "@/hooks/useProfile";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { authSelectors, useAuthStore } from "@/store/authStore";
+import { pickAvatar } from "@/utils/avatarPicker";
+import {
+  COMMON_BORDER_RADIUS,
+  COMMON_FONT_SIZES,
+  COMMON_SPACING,
+  responsiveDimensions,
+} from "@/utils/responsive";
+import { Image } from "expo-image";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+
+const AVATAR_DISPLAY_SIZE = responsiveDimensions.spacing(112);
+
+/**
+ * Profile Screen Component
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: Profile query, update and avatar upload in one screen
+ * - Command Pattern: Save and change-photo actions
+ * - Observer Pattern: Reflects the profile as it's refetched
+ *
+ * The avatar is picked and cropped on the device, then uploaded with a
+ * progress bar; the profile (and the auth store) update once it's done.
+ */
+export const ProfileScreen: React.FC = () => {
+  const user = useAuthStore(authSelectors.user);
+  const displayName = useAuthStore(authSelectors.userDisplayName);
+
+  const { isLoading: profileLoading } = useMe();
+  const updateMe = useUpdateMe();
+  const { uploadAvatar, progress, isUploading } = useAvatarUpload();
+
+  const [name, setName] = useState(user?.name ?? "");
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const nameEditedRef = useRef(false);
+
+  // Follow the stored name (e.g. once the fetched profile arrives) until
+  // the user starts typing, never over their edits
+  useEffect(() => {
+    if (user?.name && !nameEditedRef.current) {
+      setName(user.name);
+    }
+  }, [user?.name]);
+
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const successColor = useThemeColor(
+    { light: "#28a745", dark: "#30d158" },
+    "text",
+  );
+  const tintColor = useThemeColor(
+    { light: "#007AFF", dark: "#0a84ff" },
+    "tint",
+  );
+  const trackColor = useThemeColor(
+    { light: "#e9ecef", dark: "#3a3a3c" },
+    "background",
+  );
+
+  const handleChangePhoto = useCallback(async () => {
+    setError(null);
+    setMessage(null);
+
+    const result = await pickAvatar();
+    switch (result.type) {
+      case "success":
+        uploadAvatar(result.file, {
+          onSuccess: () => setMessage("Profile photo updated."),
+          onError: (uploadError) => setError(uploadError.message),
+        });
+        break;
+      case "cancelled":
+        break;
+      case "error":
+        setError(result.message);
+        break;
+    }
+  }, [uploadAvatar]);
+
+  const handleSave = useCallback(() => {
+    setError(null);
+    setMessage(null);
+    setNameError(undefined);
+
+    updateMe.mutate(
+      { name },
+      {
+        onSuccess: () => setMessage("Profile saved."),
+        onError: (updateError) => {
+          if (updateError.kind === "validation") {
+            setNameError(updateError.fieldErrors.name ?? updateError.message);
+          } else {
+            setError(updateError.message);
+          }
+        },
+      },
+    );
+  }, [name, updateMe]);
+
+  const initial = displayName.charAt(0).toUpperCase();
+
+  return (
+    <AuthLayout
+      headerContent={
+        <AuthHeader
+          icon="person-outline"
+          title="Your Profile"
+          subtitle={user?.email}
+        />
+      }
+    >
+      <View style={styles.avatarSection}>
+        <TouchableOpacity
+          onPress={handleChangePhoto}
+          disabled={isUploading}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel="Change profile photo"
+        >
+          {user?.avatar ? (
+            <Image
+              source={{ uri: user.avatar }}
+              style={styles.avatar}
+              contentFit="cover"
+              transition={200}
+            />
+          ) : (
+            <View
+              style={[
+                styles.avatar,
+                styles.avatarPlaceholder,
+                { backgroundColor: tintColor },
+              ]}
+            >
+              <ThemedText style={styles.avatarInitial}>{initial}</ThemedText>
+            </View>
+          )}
+        </TouchableOpacity>
+
+        {isUploading ? (
+          <View style={styles.progress}>
+            <View
+              style={[styles.progressTrack, { backgroundColor: trackColor }]}
+            >
+              <View
+                style={[
+                  styles.progressFill,
+                  {
+                    backgroundColor: tintColor,
+                    width: `${Math.round(progress * 100)}%`,
+                  },
+                ]}
+              />
+            </View>
+            <ThemedText style={[styles.progressText, { color: subtitleColor }]}>
+              Uploading… {Math.round(progress * 100)}%
+            </ThemedText>
+          </View>
+        ) : (
+          <FormButton
+            title="Change photo"
+            onPress={handleChangePhoto}
+            variant="ghost"
+            leftIcon="camera-outline"
+          />
+        )}
+      </View>
+
+      <FormError message={error || ""} visible={!!error} />
+
+      {message && (
+        <ThemedText style={[styles.message, { color: successColor }]}>
+          {message}
+        </ThemedText>
+      )}
+
+      <FormInput
+        label="Name"
+        value={name}
+        onChangeText={(text) => {
+          nameEditedRef.current = true;
+          setName(text);
+          setNameError(undefined);
+        }}
+        error={nameError}
+        leftIcon="person-outline"
+        placeholder={profileLoading ? "Loading…" : "Your name"}
+        autoCapitalize="words"
+        autoComplete="name"
+        textContentType="name"
+        returnKeyType="done"
+        onSubmitEditing={handleSave}
+      />
+
+      <FormButton
+        title="Save"
+        onPress={handleSave}
+        loading={updateMe.isPending}
+        disabled={updateMe.isPending || name.trim() === (user?.name ?? "")}
+        variant="primary"
+        containerStyle={styles.button}
+      />
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  avatarSection: {
+    alignItems: "center",
+    marginBottom: COMMON_SPACING.lg,
+  },
+  avatar: {
+    width: AVATAR_DISPLAY_SIZE,
+    height: AVATAR_DISPLAY_SIZE,
+    borderRadius: AVATAR_DISPLAY_SIZE / 2,
+    marginBottom: COMMON_SPACING.sm,
+  },
+  avatarPlaceholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  avatarInitial: {
+    color: "#fff",
+    fontSize: COMMON_FONT_SIZES.xxl,
+    lineHeight: COMMON_FONT_SIZES.xxl * 1.2,
+    fontWeight: "bold",
+  },
+  progress: {
+    width: "60%",
+    alignItems: "center",
+  },
+  progressTrack: {
+    width: "100%",
+    height: 6,
+    borderRadius: COMMON_BORDER_RADIUS.sm,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+  },
+  progressText: {
+    marginTop: COMMON_SPACING.xs,
+    fontSize: COMMON_FONT_SIZES.sm,
+  },
+  message: {
+    textAlign: "center",
+    fontSize: COMMON_FONT_SIZES.sm,
+    marginVertical: COMMON_SPACING.sm,
+  },
+  button: {
+    marginTop: COMMON_SPACING.md,
+  },
+});
@@ -0,0 +1,262 @@
+import { DeviceSession } from "@/api/sessionsApi";
+import { AuthHeader } from "@/components/auth/AuthHeader";
+import { AuthLayout } from "@/components/auth/AuthLayout";
+import { FormButton } from "@/components/auth/FormButton";
+import { FormError } from "@/components/auth/FormError";
+import { ThemedText } from "@/components/ThemedText";
+import { useSessions } from "@/hooks/useSessions";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  COMMON_BORDER_RADIUS,
+  COMMON_FONT_SIZES,
+  COMMON_SPACING,
+  responsiveDimensions,
+} from "@/utils/responsive";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+
+const PLATFORM_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
+  ios: "phone-portrait-outline",
+  android: "phone-portrait-outline",
+  web: "globe-outline",
+};
+
+const PLATFORM_LABELS: Record<string, string> = {
+  ios: "iOS",
+  android: "Android",
+  web: "Web browser",
+};
+
+/**
+ * "Active now", "5 minutes ago", "3 days ago", or a date past a month
+ */
+const formatLastSeen = (isoDate: string): string => {
+  const elapsedMs = Date.now() - new Date(isoDate).getTime();
+  const minutes = Math.floor(elapsedMs / 60_000);
+  if (Number.isNaN(minutes)) return "Unknown";
+  if (minutes < 2) return "Active now";
+  if (minutes < 60) return `${minutes} minutes ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return hours === 1 ? "1 hour ago" : `${hours} hours ago`;
+
+  const days = Math.floor(hours / 24);
+  if (days < 30) return days === 1 ? "Yesterday" : `${days} days ago`;
+
+  return new Date(isoDate).toLocaleDateString();
+};
+
+interface SessionRowProps {
+  session: DeviceSession;
+  isRevoking: boolean;
+  onRevoke: () => void;
+}
+
+/**
+ * Single device: platform icon, name, location and last activity
+ */
+const SessionRow: React.FC<SessionRowProps> = ({
+  session,
+  isRevoking,
+  onRevoke,
+}) => {
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const rowColor = useThemeColor(
+    { light: "#f8f9fa", dark: "#2c2c2e" },
+    "background",
+  );
+  const tintColor = useThemeColor(
+    { light: "#007AFF", dark: "#0a84ff" },
+    "tint",
+  );
+
+  const platform = session.platform?.toLowerCase() ?? "";
+  const title =
+    session.deviceName || PLATFORM_LABELS[platform] || "Unknown device";
+  const details = [
+    session.location,
+    session.current ? "This device" : formatLastSeen(session.lastSeenAt),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <View
+      style={[
+        styles.row,
+        { backgroundColor: rowColor },
+        session.current && { borderColor: tintColor, borderWidth: 2 },
+      ]}
+    >
+      <Ionicons
+        name={PLATFORM_ICONS[platform] ?? "hardware-chip-outline"}
+        size={responsiveDimensions.fontSize(24)}
+        color={session.current ? tintColor : subtitleColor}
+        style={styles.icon}
+      />
+
+      <View style={styles.details}>
+        <ThemedText style={styles.name} numberOfLines={1}>
+          {title}
+        </ThemedText>
+        <ThemedText
+          style={[styles.meta, { color: subtitleColor }]}
+          numberOfLines={1}
+        >
+          {details}
+        </ThemedText>
+      </View>
+
+      {!session.current && (
+        <FormButton
+          title="Sign out"
+          onPress={onRevoke}
+          loading={isRevoking}
+          disabled={isRevoking}
+          variant="ghost"
+          size="small"
+          fullWidth={false}
+        />
+      )}
+    </View>
+  );
+};
+
+/**
+ * Sessions Screen Component
+ *
+ * Design Patterns Used:
+ * - Composite Pattern: One row per signed-in device
+ * - Command Pattern: Revoke one session, or every other session
+ *
+ * The current device is marked and can't be revoked here; signing out
+ * of the account does that.
+ */
+export const SessionsScreen: React.FC = () => {
+  const [actionError, setActionError] = useState<string | null>(null);
+  const {
+    sessions,
+    isLoading,
+    error,
+    refetch,
+    revoke,
+    revokingId,
+    revokeOthers,
+    revokeOthersLoading,
+  } = useSessions();
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  const handleRevoke = (sessionId: string) => {
+    setActionError(null);
+    revoke(sessionId, {
+      onError: (revokeError) => setActionError(revokeError.message),
+    });
+  };
+
+  const handleRevokeOthers = () => {
+    setActionError(null);
+    revokeOthers(undefined, {
+      onError: (revokeError) => setActionError(revokeError.message),
+    });
+  };
+
+  // Current device first, then most recently active
+  const sortedSessions = [...sessions].sort((a, b) =>
+    a.current !== b.current
+      ? Number(b.current) - Number(a.current)
+      : b.lastSeenAt.localeCompare(a.lastSeenAt),
+  );
+
+  return (
+    <AuthLayout
+      headerContent={
+        <AuthHeader
+          icon="laptop-outline"
+          title="Signed-In Devices"
+          subtitle="Devices where your account is signed in. Sign out any you don't recognize."
+        />
+      }
+    >
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      ) : error ? (
+        <>
+          <FormError message={error.message} />
+          <FormButton
+            title="Try Again"
+            onPress={() => refetch()}
+            variant="primary"
+            containerStyle={styles.button}
+          />
+        </>
+      ) : (
+        <View style={styles.list}>
+          <FormError message={actionError || ""} visible={!!actionError} />
+
+          {sortedSessions.map((session) => (
+            <SessionRow
+              key={session.id}
+              session={session}
+              isRevoking={revokingId === session.id}
+              onRevoke={() => handleRevoke(session.id)}
+            />
+          ))}
+
+          {hasOtherSessions && (
+            <FormButton
+              title="Sign out all other devices"
+              onPress={handleRevokeOthers}
+              loading={revokeOthersLoading}
+              disabled={revokeOthersLoading}
+              variant="outline"
+              leftIcon="log-out-outline"
+              containerStyle={styles.button}
+            />
+          )}
+        </View>
+      )}
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    alignItems: "center",
+    paddingVertical: COMMON_SPACING.xl,
+  },
+  list: {
+    width: "100%",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: COMMON_SPACING.sm,
+    marginBottom: COMMON_SPACING.sm,
+    borderRadius: COMMON_BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+  icon: {
+    marginRight: COMMON_SPACING.sm,
+  },
+  details: {
+    flex: 1,
+  },
+  name: {
+    fontSize: COMMON_FONT_SIZES.md,
+    fontWeight: "600",
+  },
+  meta: {
+    fontSize: COMMON_FONT_SIZES.sm,
+  },
+  button: {
+    marginTop: COMMON_SPACING.md,
+  },
+});
@@ -0,0 +1,19 @@
+/**
+ * Account Components Barrel Export
+ *
+ * Screens for the signed-in user's account, kept apart from the
+ * sign-in flow in components/auth.
+ */
+
+// Screen Components
+export { AccountScreen } from "./AccountScreen";
+export { DataExportScreen } from "./DataExportScreen";
+export { DeleteAccountScreen } from "./DeleteAccountScreen";
+export { ProfileScreen } from "./ProfileScreen";
+export { SessionsScreen } from "./SessionsScreen";
+
+// Account Components
+export { AccountSwitcher } from "./AccountSwitcher";
+
+// Type Exports
+export type { AccountSwitcherProps } from "./AccountSwitcher";
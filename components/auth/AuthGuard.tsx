@@ -1,11 +1,13 @@
+import { usePermission } from "@/hooks/usePermission";
 import { useThemeColor } from "@/hooks/useThemeColor";
 import { authSelectors, useAuthStore } from "@/store/authStore";
 import { COMMON_FONT_SIZES, COMMON_SPACING } from "@/utils/responsive";
-import { router } from "expo-router";
+import { router, usePathname } from "expo-router";
 import React, { useEffect } from "react";
 import { ActivityIndicator, StyleSheet, View } from "react-native";
 import { ThemedText } from "../ThemedText";
 import { ThemedView } from "../ThemedView";
+import { ForbiddenScreen } from "./ForbiddenScreen";
 
 /**
  * AuthGuard Props Interface
@@ -14,6 +16,10 @@ interface AuthGuardProps {
   children: React.ReactNode;
   fallback?: React.ReactNode;
   redirectTo?: string;
+  requiredRoles?: string[]; // Any one of these roles
+  requiredPermissions?: string[]; // All of these permissions
+  forbiddenFallback?: React.ReactNode; // Defaults to ForbiddenScreen
+  forbiddenRedirectTo?: string; // Redirect instead of showing a 403
 }
 
 /**
@@ -24,16 +30,34 @@ interface AuthGuardProps {
  * - Observer Pattern: Reacts to authentication state changes
  * - Strategy Pattern: Different behaviors for authenticated vs unauthenticated users
  * - Template Method Pattern: Defines the authentication check algorithm
+ *
+ * Signed-in users who don't meet `requiredRoles`/`requiredPermissions`
+ * get a 403 screen, or are redirected when `forbiddenRedirectTo` is set.
+ * These checks only shape the UI; the gateway enforces access itself.
+ *
+ * Routes under (protected) already require a session; outside it, the
+ * login redirect carries the current path as `returnTo`.
  */
 export const AuthGuard: React.FC<AuthGuardProps> = ({
   children,
   fallback,
   redirectTo = "/auth/login",
+  requiredRoles,
+  requiredPermissions,
+  forbiddenFallback,
+  forbiddenRedirectTo,
 }) => {
   // Auth state using selectors for optimized subscriptions
   const isAuthenticated = useAuthStore(authSelectors.isAuthenticated);
   const isLoading = useAuthStore(authSelectors.isLoading);
+  const hasHydrated = useAuthStore(authSelectors.hasHydrated);
   const token = useAuthStore(authSelectors.token);
+  const isAllowed = usePermission({
+    roles: requiredRoles,
+    permissions: requiredPermissions,
+  });
+  const pathname = usePathname();
+  const isPending = isLoading || !hasHydrated;
 
   // Theme colors
   const textColor = useThemeColor({}, "text");
@@ -47,19 +71,36 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({
    * Observer Pattern: Responds to auth state updates
    */
   useEffect(() => {
-    // Skip redirect during initial loading
-    if (isLoading) return;
+    // Skip redirect until persisted sessions are restored
+    if (isPending) return;
 
     // Redirect to auth if not authenticated
     if (!isAuthenticated || !token) {
-      router.replace(redirectTo as any);
+      router.replace({
+        pathname: redirectTo as any,
+        params: { returnTo: pathname },
+      });
+      return;
     }
-  }, [isAuthenticated, isLoading, token, redirectTo]);
+
+    // Signed in but lacking a role/permission
+    if (!isAllowed && forbiddenRedirectTo) {
+      router.replace(forbiddenRedirectTo as any);
+    }
+  }, [
+    isAuthenticated,
+    isPending,
+    token,
+    redirectTo,
+    pathname,
+    isAllowed,
+    forbiddenRedirectTo,
+  ]);
 
   /**
    * Render loading state during authentication check
    */
-  if (isLoading) {
+  if (isPending) {
     return (
       <ThemedView style={styles.container}>
         <View style={styles.loadingContainer}>
@@ -85,7 +126,18 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({
   }
 
   /**
-   * Render protected content if authenticated
+   * Render the 403 fallback, or nothing while redirecting, if not allowed
+   */
+  if (!isAllowed) {
+    if (forbiddenRedirectTo) {
+      return null;
+    }
+
+    return <>{forbiddenFallback ?? <ForbiddenScreen />}</>;
+  }
+
+  /**
+   * Render protected content if authenticated and allowed
    */
   return <>{children}</>;
 };
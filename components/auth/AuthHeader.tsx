@@ -0,0 +1,116 @@
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  COMMON_FONT_SIZES,
+  COMMON_SPACING,
+  responsiveDimensions,
+  useResponsiveValue,
+} from "@/utils/responsive";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { Platform, StyleSheet, View } from "react-native";
+import { ThemedText } from "../ThemedText";
+
+/**
+ * AuthHeader Props Interface
+ */
+export interface AuthHeaderProps {
+  title: string;
+  subtitle?: string;
+  icon?: keyof typeof Ionicons.glyphMap;
+}
+
+/**
+ * Header for secondary auth screens (password reset, verification, ...)
+ *
+ * Design Patterns Used:
+ * - Template Method Pattern: Same logo/title/subtitle structure as the
+ *   login and signup headers
+ * - Strategy Pattern: Shows an icon instead of the app logo when given
+ */
+export const AuthHeader: React.FC<AuthHeaderProps> = ({
+  title,
+  subtitle,
+  icon,
+}) => {
+  const textColor = useThemeColor({}, "text");
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+
+  // Responsive values
+  const titleSize = useResponsiveValue(
+    COMMON_FONT_SIZES.xxl,
+    COMMON_FONT_SIZES.title,
+    COMMON_FONT_SIZES.title,
+  );
+  const logoSize = useResponsiveValue(60, 80, 100);
+
+  return (
+    <View style={styles.header}>
+      <View
+        style={[styles.logoContainer, { width: logoSize, height: logoSize }]}
+      >
+        {icon ? (
+          <Ionicons name={icon} size={logoSize * 0.5} color="#fff" />
+        ) : (
+          <ThemedText style={[styles.logoText, { fontSize: logoSize * 0.6 }]}>
+            AI
+          </ThemedText>
+        )}
+      </View>
+
+      <ThemedText
+        style={[styles.title, { fontSize: titleSize, color: textColor }]}
+      >
+        {title}
+      </ThemedText>
+      {subtitle && (
+        <ThemedText style={[styles.subtitle, { color: subtitleColor }]}>
+          {subtitle}
+        </ThemedText>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    alignItems: "center",
+  },
+  logoContainer: {
+    borderRadius: 20,
+    backgroundColor: "#007AFF",
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: COMMON_SPACING.lg,
+    ...Platform.select({
+      ios: {
+        shadowColor: "#007AFF",
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 8,
+      },
+      web: {
+        boxShadow: "0 4px 12px rgba(0, 122, 255, 0.3)",
+      },
+    }),
+  },
+  logoText: {
+    color: "#fff",
+    fontWeight: "bold",
+  },
+  title: {
+    fontWeight: "bold",
+    textAlign: "center",
+    marginBottom: COMMON_SPACING.sm,
+  },
+  subtitle: {
+    textAlign: "center",
+    fontSize: COMMON_FONT_SIZES.md,
+    lineHeight: responsiveDimensions.fontSize(22),
+  },
+});
@@ -0,0 +1,32 @@
+import { usePermission } from "@/hooks/usePermission";
+import React from "react";
+
+/**
+ * Can Props Interface
+ */
+export interface CanProps {
+  roles?: string[];
+  permissions?: string[];
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+/**
+ * Renders its children only for users meeting the requirements
+ *
+ * Design Patterns Used:
+ * - Guard Pattern: Role/permission check for a single piece of UI
+ * - Null Object Pattern: Renders the fallback (or nothing) otherwise
+ *
+ * Use AuthGuard's requiredRoles/requiredPermissions for whole screens.
+ */
+export const Can: React.FC<CanProps> = ({
+  roles,
+  permissions,
+  children,
+  fallback = null,
+}) => {
+  const allowed = usePermission({ roles, permissions });
+
+  return <>{allowed ? children : fallback}</>;
+};
@@ -0,0 +1,114 @@
+import { LEGAL_DOCUMENTS, LegalDocumentId } from "@/constants/Legal";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  COMMON_FONT_SIZES,
+  COMMON_SPACING,
+  responsiveDimensions,
+} from "@/utils/responsive";
+import { Ionicons } from "@expo/vector-icons";
+import { openBrowserAsync } from "expo-web-browser";
+import React from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { ThemedText } from "../ThemedText";
+
+/**
+ * ConsentCheckbox Props Interface
+ */
+export interface ConsentCheckboxProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  error?: string;
+}
+
+/**
+ * "I agree to the Terms of Service and Privacy Policy" checkbox
+ *
+ * Design Patterns Used:
+ * - Composition Pattern: Checkbox, label with document links, and error
+ *
+ * Document titles and links come from constants/Legal.
+ */
+export const ConsentCheckbox: React.FC<ConsentCheckboxProps> = ({
+  checked,
+  onChange,
+  error,
+}) => {
+  const tintColor = useThemeColor(
+    { light: "#007AFF", dark: "#0a84ff" },
+    "tint",
+  );
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const errorColor = useThemeColor(
+    { light: "#dc3545", dark: "#ff453a" },
+    "text",
+  );
+
+  const renderLink = (documentId: LegalDocumentId) => (
+    <ThemedText
+      style={[styles.link, { color: tintColor }]}
+      onPress={() => openBrowserAsync(LEGAL_DOCUMENTS[documentId].url)}
+      accessibilityRole="link"
+    >
+      {LEGAL_DOCUMENTS[documentId].title}
+    </ThemedText>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <TouchableOpacity
+          onPress={() => onChange(!checked)}
+          style={styles.checkbox}
+          activeOpacity={0.7}
+          accessibilityRole="checkbox"
+          accessibilityState={{ checked }}
+          accessibilityLabel="Accept the Terms of Service and Privacy Policy"
+        >
+          <Ionicons
+            name={checked ? "checkbox" : "square-outline"}
+            size={responsiveDimensions.fontSize(22)}
+            color={checked ? tintColor : error ? errorColor : subtitleColor}
+          />
+        </TouchableOpacity>
+
+        <ThemedText style={styles.label}>
+          I agree to the {renderLink("terms")} and {renderLink("privacy")}
+        </ThemedText>
+      </View>
+
+      {error && (
+        <ThemedText style={[styles.errorText, { color: errorColor }]}>
+          {error}
+        </ThemedText>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: COMMON_SPACING.md,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  checkbox: {
+    marginRight: COMMON_SPACING.sm,
+  },
+  label: {
+    flex: 1,
+    fontSize: COMMON_FONT_SIZES.sm,
+  },
+  link: {
+    fontSize: COMMON_FONT_SIZES.sm,
+    fontWeight: "600",
+  },
+  errorText: {
+    fontSize: COMMON_FONT_SIZES.sm,
+    marginTop: COMMON_SPACING.xs,
+  },
+});
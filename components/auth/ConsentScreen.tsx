@@ -0,0 +1,85 @@
+import { consentFormSchema } from "@/api/authSchemas";
+import { useAuth } from "@/hooks/useAuth";
+import { useConsent } from "@/hooks/useConsent";
+import { useZodForm } from "@/hooks/useZodForm";
+import { COMMON_SPACING } from "@/utils/responsive";
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import { AuthHeader } from "./AuthHeader";
+import { AuthLayout } from "./AuthLayout";
+import { ConsentCheckbox } from "./ConsentCheckbox";
+import { FormButton } from "./FormButton";
+import { FormError } from "./FormError";
+
+/**
+ * Blocking re-consent screen
+ *
+ * Design Patterns Used:
+ * - Template Method Pattern: Same layout as the other auth screens
+ * - Command Pattern: Accept records consent, sign out leaves
+ *
+ * Shown by the protected layout instead of any signed-in screen while
+ * the user hasn't accepted the current legal documents: after they
+ * change, or for accounts created without a consent step (social
+ * sign-in). There's no way past it other than accepting or signing out.
+ */
+export const ConsentScreen: React.FC = () => {
+  const { consent, acceptConsent, acceptLoading, acceptError } = useConsent();
+  const { logout } = useAuth();
+
+  const form = useZodForm({
+    schema: consentFormSchema,
+    initialValues: { acceptTerms: false },
+  });
+
+  const handleAccept = form.handleSubmit(() => acceptConsent());
+
+  return (
+    <AuthLayout
+      headerContent={
+        <AuthHeader
+          icon="document-text-outline"
+          title={consent ? "We've Updated Our Terms" : "Review Our Terms"}
+          subtitle={
+            consent
+              ? "Our Terms of Service and Privacy Policy have changed. Please review and accept them to keep using your account."
+              : "Please review and accept our Terms of Service and Privacy Policy to continue."
+          }
+        />
+      }
+    >
+      <View style={styles.form}>
+        <FormError
+          message={acceptError?.message || ""}
+          visible={!!acceptError}
+        />
+
+        <ConsentCheckbox
+          checked={form.values.acceptTerms}
+          onChange={(checked) => form.setValue("acceptTerms", checked)}
+          error={form.errors.acceptTerms}
+        />
+
+        <FormButton
+          title="Accept and Continue"
+          onPress={handleAccept}
+          loading={acceptLoading}
+          disabled={acceptLoading}
+          variant="primary"
+          containerStyle={styles.button}
+        />
+
+        <FormButton title="Sign Out" onPress={logout} variant="ghost" />
+      </View>
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  form: {
+    width: "100%",
+  },
+  button: {
+    marginTop: COMMON_SPACING.md,
+  },
+});
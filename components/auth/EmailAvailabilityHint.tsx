@@ -0,0 +1,127 @@
+import {
+  EmailAvailability,
+  useEmailAvailability,
+} from "@/hooks/useEmailAvailability";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  COMMON_FONT_SIZES,
+  COMMON_SPACING,
+  responsiveDimensions,
+} from "@/utils/responsive";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import React, { useCallback } from "react";
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+import { ThemedText } from "../ThemedText";
+
+/**
+ * EmailAvailabilityHint Props Interface
+ */
+export interface EmailAvailabilityHintProps {
+  email: string;
+}
+
+const HIDDEN_STATES: EmailAvailability[] = ["idle", "unknown"];
+
+/**
+ * Inline "is this email free?" hint for the signup form
+ *
+ * Design Patterns Used:
+ * - Null Object Pattern: Renders nothing until there's an answer to show
+ * - State Pattern: Checking, available and taken each render differently
+ *
+ * A taken email links to sign in with the email pre-filled.
+ */
+export const EmailAvailabilityHint: React.FC<EmailAvailabilityHintProps> = ({
+  email,
+}) => {
+  const availability = useEmailAvailability(email);
+
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const successColor = useThemeColor(
+    { light: "#28a745", dark: "#30d158" },
+    "text",
+  );
+  const warningColor = useThemeColor(
+    { light: "#dc3545", dark: "#ff453a" },
+    "text",
+  );
+  const linkColor = useThemeColor(
+    { light: "#007AFF", dark: "#0a84ff" },
+    "tint",
+  );
+
+  const handleSignIn = useCallback(() => {
+    router.push({ pathname: "/auth/login", params: { email: email.trim() } });
+  }, [email]);
+
+  if (HIDDEN_STATES.includes(availability)) {
+    return null;
+  }
+
+  if (availability === "checking") {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="small" color={subtitleColor} />
+        <ThemedText style={[styles.text, { color: subtitleColor }]}>
+          Checking availability...
+        </ThemedText>
+      </View>
+    );
+  }
+
+  if (availability === "available") {
+    return (
+      <View style={styles.container}>
+        <Ionicons
+          name="checkmark-circle"
+          size={responsiveDimensions.fontSize(16)}
+          color={successColor}
+        />
+        <ThemedText style={[styles.text, { color: successColor }]}>
+          This email is available
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Ionicons
+        name="alert-circle"
+        size={responsiveDimensions.fontSize(16)}
+        color={warningColor}
+      />
+      <ThemedText style={[styles.text, { color: warningColor }]}>
+        Already registered —{" "}
+        <ThemedText
+          style={[styles.text, styles.link, { color: linkColor }]}
+          onPress={handleSignIn}
+          accessibilityRole="link"
+        >
+          sign in instead
+        </ThemedText>
+      </ThemedText>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: -COMMON_SPACING.sm,
+    marginBottom: COMMON_SPACING.md,
+  },
+  text: {
+    fontSize: COMMON_FONT_SIZES.sm,
+    marginLeft: COMMON_SPACING.xs,
+  },
+  link: {
+    marginLeft: 0,
+    fontWeight: "600",
+  },
+});
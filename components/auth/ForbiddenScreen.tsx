@@ -0,0 +1,60 @@
+import { COMMON_SPACING } from "@/utils/responsive";
+import { router } from "expo-router";
+import React, { useCallback } from "react";
+import { StyleSheet } from "react-native";
+import { AuthHeader } from "./AuthHeader";
+import { AuthLayout } from "./AuthLayout";
+import { FormButton } from "./FormButton";
+
+/**
+ * ForbiddenScreen Props Interface
+ */
+export interface ForbiddenScreenProps {
+  title?: string;
+  message?: string;
+}
+
+/**
+ * 403 Screen: signed in, but not allowed to see this screen
+ *
+ * Design Patterns Used:
+ * - Template Method Pattern: Same layout as the other auth screens
+ * - Strategy Pattern: Goes back when there's history, else to the account
+ */
+export const ForbiddenScreen: React.FC<ForbiddenScreenProps> = ({
+  title = "Access Denied",
+  message = "Your account doesn't have permission to view this page. If you think it should, contact your administrator.",
+}) => {
+  const handleBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace("/account");
+    }
+  }, []);
+
+  return (
+    <AuthLayout
+      headerContent={
+        <AuthHeader
+          icon="lock-closed-outline"
+          title={title}
+          subtitle={message}
+        />
+      }
+    >
+      <FormButton
+        title="Go Back"
+        onPress={handleBack}
+        variant="primary"
+        containerStyle={styles.button}
+      />
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    marginTop: COMMON_SPACING.md,
+  },
+});
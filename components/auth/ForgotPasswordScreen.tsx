@@ -0,0 +1,159 @@
+import { emailPayloadSchema } from "@/api/authSchemas";
+import { useAuth } from "@/hooks/useAuth";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { useZodForm } from "@/hooks/useZodForm";
+import { COMMON_FONT_SIZES, COMMON_SPACING } from "@/utils/responsive";
+import { router } from "expo-router";
+import React, { useCallback, useState } from "react";
+import { StyleSheet, View } from "react-native";
+import { ThemedText } from "../ThemedText";
+import { AuthHeader } from "./AuthHeader";
+import { AuthLayout } from "./AuthLayout";
+import { FormButton } from "./FormButton";
+import { FormError } from "./FormError";
+import { FormInput } from "./FormInput";
+
+/**
+ * Forgot Password Screen Component
+ *
+ * Design Patterns Used:
+ * - State Pattern: Switches from the request form to a confirmation view
+ * - Command Pattern: Encapsulates the reset request operation
+ *
+ * The confirmation is shown for any accepted request, registered email
+ * or not, so the screen can't be used to probe for accounts.
+ */
+export const ForgotPasswordScreen: React.FC = () => {
+  const form = useZodForm({
+    schema: emailPayloadSchema,
+    initialValues: { email: "" },
+  });
+  const [generalError, setGeneralError] = useState<string | null>(null);
+
+  const {
+    requestPasswordReset,
+    passwordResetRequestLoading,
+    passwordResetRequestSent,
+  } = useAuth();
+
+  // Theme colors
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const linkColor = useThemeColor(
+    { light: "#007AFF", dark: "#0a84ff" },
+    "tint",
+  );
+
+  /**
+   * Handle reset link request
+   */
+  const handleSubmit = form.handleSubmit((payload) => {
+    setGeneralError(null);
+    requestPasswordReset(payload, {
+      onError: (error) => {
+        if (error.kind === "validation") {
+          form.setFieldError("email", error.fieldErrors.email ?? error.message);
+        } else {
+          setGeneralError(error.message);
+        }
+      },
+    });
+  });
+
+  const handleLoginNavigation = useCallback(() => {
+    router.replace("/auth/login");
+  }, []);
+
+  const renderFooter = () => (
+    <View style={styles.footer}>
+      <ThemedText style={[styles.footerText, { color: subtitleColor }]}>
+        Remembered it?{" "}
+        <ThemedText
+          style={[styles.linkText, { color: linkColor }]}
+          onPress={handleLoginNavigation}
+        >
+          Back to sign in
+        </ThemedText>
+      </ThemedText>
+    </View>
+  );
+
+  if (passwordResetRequestSent) {
+    return (
+      <AuthLayout
+        headerContent={
+          <AuthHeader
+            icon="mail-unread-outline"
+            title="Check Your Email"
+            subtitle={`If an account exists for ${form.values.email.trim()}, we've sent a link to reset your password.`}
+          />
+        }
+        footerContent={renderFooter()}
+      >
+        <FormButton
+          title="Back to Sign In"
+          onPress={handleLoginNavigation}
+          variant="primary"
+        />
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout
+      headerContent={
+        <AuthHeader
+          icon="key-outline"
+          title="Forgot Password"
+          subtitle="Enter your email and we'll send you a link to reset your password"
+        />
+      }
+      footerContent={renderFooter()}
+    >
+      <View style={styles.form}>
+        <FormError message={generalError || ""} visible={!!generalError} />
+
+        <FormInput
+          label="Email"
+          placeholder="Enter your email"
+          {...form.getFieldProps("email")}
+          leftIcon="mail-outline"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoComplete="email"
+          textContentType="emailAddress"
+        />
+
+        <FormButton
+          title="Send Reset Link"
+          onPress={handleSubmit}
+          loading={passwordResetRequestLoading}
+          disabled={passwordResetRequestLoading}
+          variant="primary"
+          containerStyle={styles.submitButton}
+        />
+      </View>
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  form: {
+    width: "100%",
+  },
+  submitButton: {
+    marginTop: COMMON_SPACING.md,
+  },
+  footer: {
+    alignItems: "center",
+  },
+  footerText: {
+    fontSize: COMMON_FONT_SIZES.md,
+    textAlign: "center",
+  },
+  linkText: {
+    fontWeight: "600",
+  },
+});
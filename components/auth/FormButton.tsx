@@ -26,7 +26,17 @@ export type ButtonVariant =
   | "secondary"
   | "outline"
   | "ghost"
-  | "google";
+  | "oauth";
+
+/**
+ * Provider colors for the "oauth" variant
+ * (see OAuthProviderBranding in constants/OAuthProviders)
+ */
+export interface ButtonBrand {
+  backgroundColor: string;
+  textColor: string;
+  borderColor: string;
+}
 
 /**
  * Button size options for responsive design
@@ -41,6 +51,7 @@ export interface FormButtonProps {
   title: string;
   onPress: () => void;
   variant?: ButtonVariant;
+  brand?: ButtonBrand;
   size?: ButtonSize;
   disabled?: boolean;
   loading?: boolean;
@@ -64,6 +75,7 @@ export const FormButton: React.FC<FormButtonProps> = ({
   title,
   onPress,
   variant = "primary",
+  brand,
   size = "medium",
   disabled = false,
   loading = false,
@@ -127,13 +139,13 @@ export const FormButton: React.FC<FormButtonProps> = ({
           backgroundColor: "transparent",
         };
 
-      case "google":
+      case "oauth":
         return {
           ...baseStyle,
-          backgroundColor: "#fff",
+          backgroundColor: brand?.backgroundColor ?? background,
           borderWidth: 1,
-          borderColor: "#dadce0",
-          // Google-specific shadow
+          borderColor: brand?.borderColor ?? border,
+          // Provider button shadow
           ...Platform.select({
             ios: {
               shadowColor: "#000",
@@ -185,10 +197,10 @@ export const FormButton: React.FC<FormButtonProps> = ({
           color: primaryColor,
         };
 
-      case "google":
+      case "oauth":
         return {
           ...baseTextStyle,
-          color: "#3c4043",
+          color: brand?.textColor ?? textColor,
         };
 
       default:
@@ -251,8 +263,8 @@ export const FormButton: React.FC<FormButtonProps> = ({
     switch (variant) {
       case "primary":
         return "#fff";
-      case "google":
-        return "#3c4043";
+      case "oauth":
+        return brand?.textColor ?? textColor;
       case "outline":
         return primaryColor;
       default:
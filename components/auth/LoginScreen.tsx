@@ -1,5 +1,9 @@
+import { loginPayloadSchema } from "@/api/authSchemas";
+import { AccountSwitcher } from "@/components/account/AccountSwitcher";
 import { useAuth } from "@/hooks/useAuth";
+import { useCountdown } from "@/hooks/useCooldown";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { useZodForm } from "@/hooks/useZodForm";
 import {
   COMMON_FONT_SIZES,
   COMMON_SPACING,
@@ -8,27 +12,43 @@ import {
 } from "@/utils/responsive";
 import { router } from "expo-router";
 import React, { useCallback, useState } from "react";
-import { Alert, Platform, StyleSheet, View } from "react-native";
+import { Platform, StyleSheet, View } from "react-native";
+import { z } from "zod";
 import { ThemedText } from "../ThemedText";
 import { AuthLayout } from "./AuthLayout";
 import { FormButton } from "./FormButton";
 import { FormError } from "./FormError";
 import { FormInput } from "./FormInput";
+import { OAuthProviderButtons } from "./OAuthProviderButtons";
+import { PasskeySignInButton } from "./PasskeySignInButton";
 
 /**
- * Form validation interface
- * Interface Segregation Principle - focused on validation concerns
+ * LoginScreen Props Interface
  */
-interface LoginFormData {
-  email: string;
-  password: string;
+export interface LoginScreenProps {
+  initialEmail?: string; // Pre-filled after signup or email verification
 }
 
-interface LoginFormErrors {
-  email?: string;
-  password?: string;
-  general?: string;
-}
+/**
+ * Password sign-in, or an emailed one-time link
+ */
+type LoginMode = "password" | "magic_link";
+
+/**
+ * A sign-in link needs only the email; the password field is ignored
+ */
+const magicLinkFormSchema = loginPayloadSchema.extend({
+  password: z.string(),
+});
+
+/**
+ * "0:42" style countdown; lockouts can last several minutes
+ */
+const formatCountdown = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
 
 /**
  * Login Screen Component
@@ -36,20 +56,41 @@ interface LoginFormErrors {
  * Design Patterns Used:
  * - MVC Pattern: Separates presentation (View) from business logic (Controller)
  * - Observer Pattern: Reacts to auth state changes via useAuth hook
- * - Strategy Pattern: Different validation strategies for different fields
- * - Command Pattern: Encapsulates login and Google login actions
+ * - Strategy Pattern: Validation schema per sign-in mode (useZodForm)
+ * - Command Pattern: Encapsulates login, sign-in link and passkey actions
  * - State Pattern: Manages form state, validation state, and loading states
  */
-export const LoginScreen: React.FC = () => {
+export const LoginScreen: React.FC<LoginScreenProps> = ({
+  initialEmail = "",
+}) => {
   // Form state management using State Pattern
-  const [formData, setFormData] = useState<LoginFormData>({
-    email: "",
-    password: "",
+  const [mode, setMode] = useState<LoginMode>("password");
+  const [generalError, setGeneralError] = useState<string | null>(null);
+  const form = useZodForm({
+    schema: mode === "password" ? loginPayloadSchema : magicLinkFormSchema,
+    initialValues: { email: initialEmail, password: "" },
   });
-  const [errors, setErrors] = useState<LoginFormErrors>({});
 
   // Auth hook using Observer Pattern
-  const { login, loginLoading, loginError } = useAuth();
+  const {
+    login,
+    loginLoading,
+    loginError,
+    getLoginThrottle,
+    requestMagicLink,
+    magicLinkRequestLoading,
+  } = useAuth();
+
+  // Rate limit / lockout countdown for the email being typed (from the
+  // persisted auth store)
+  const loginThrottle = getLoginThrottle(form.values.email);
+  const throttleSecondsLeft = useCountdown(loginThrottle?.until ?? null);
+  const isThrottled = throttleSecondsLeft > 0;
+  const throttleMessage = !isThrottled
+    ? null
+    : loginThrottle?.reason === "locked"
+      ? "Your account is temporarily locked after too many failed sign-in attempts."
+      : "Too many sign-in attempts. Please wait before trying again.";
 
   // Theme colors
   const textColor = useThemeColor({}, "text");
@@ -69,94 +110,61 @@ export const LoginScreen: React.FC = () => {
   );
   const logoSize = useResponsiveValue(60, 80, 100);
 
-  /**
-   * Form validation using Strategy Pattern
-   * Different validation strategies for different field types
-   */
-  const validateForm = useCallback((): boolean => {
-    const newErrors: LoginFormErrors = {};
-
-    // Email validation strategy
-    if (!formData.email.trim()) {
-      newErrors.email = "Email is required";
-    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = "Please enter a valid email address";
-    }
-
-    // Password validation strategy
-    if (!formData.password.trim()) {
-      newErrors.password = "Password is required";
-    } else if (formData.password.length < 6) {
-      newErrors.password = "Password must be at least 6 characters";
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  }, [formData]);
-
-  /**
-   * Handle form field changes
-   * Command Pattern: Encapsulates field update operations
-   */
-  const handleFieldChange = useCallback(
-    (field: keyof LoginFormData, value: string) => {
-      setFormData((prev) => ({ ...prev, [field]: value }));
-
-      // Clear field-specific error when user starts typing
-      if (errors[field]) {
-        setErrors((prev) => ({ ...prev, [field]: undefined }));
-      }
-    },
-    [errors],
-  );
-
   /**
    * Handle email/password login
    * Command Pattern: Encapsulates the login operation
    */
-  const handleLogin = useCallback(async () => {
-    if (!validateForm()) {
+  const handleLogin = form.handleSubmit(({ email, password }) => {
+    if (isThrottled) {
       return;
     }
 
-    setErrors({}); // Clear any previous errors
-
-    login({
-      email: formData.email.trim(),
-      password: formData.password,
-    });
+    setGeneralError(null);
+    login({ email, password });
 
     // Navigation will be handled by auth state change
     // This follows the Observer Pattern - UI reacts to auth state changes
-  }, [formData, validateForm, login]);
+  });
 
   /**
-   * Handle Google login (Frontend only for now)
-   * Command Pattern: Encapsulates Google login operation
-   *
-   * Note: This is a placeholder implementation
-   * Will be integrated with actual Google OAuth when backend is ready
+   * Email a sign-in link, then wait for it on the check-inbox screen
+   * Command Pattern: Encapsulates the magic link request
    */
-  const handleGoogleLogin = useCallback(async () => {
-    try {
-      // Placeholder alert for now
-      Alert.alert(
-        "Google Login",
-        "Google login will be implemented when backend integration is ready.",
-        [{ text: "OK" }],
-      );
+  const handleSendMagicLink = form.handleSubmit(({ email }) => {
+    setGeneralError(null);
 
-      // TODO: Implement actual Google OAuth flow
-      // This would typically involve:
-      // 1. Google OAuth SDK initialization
-      // 2. User authentication with Google
-      // 3. Sending Google token to backend
-      // 4. Receiving JWT token from backend
-      // 5. Setting auth state
-    } catch (error: any) {
-      setErrors({ general: "Google login failed. Please try again." });
-      console.error("Google login error:", error);
-    }
+    requestMagicLink(
+      { email },
+      {
+        onSuccess: () =>
+          router.push({
+            pathname: "/auth/magic-link",
+            params: { email, sent: "1" },
+          }),
+        onError: (error) => {
+          if (error.kind === "validation") {
+            form.setFieldError(
+              "email",
+              error.fieldErrors.email ?? error.message,
+            );
+          } else {
+            setGeneralError(error.message);
+          }
+        },
+      },
+    );
+  });
+
+  const handleToggleMode = useCallback(() => {
+    setMode((current) => (current === "password" ? "magic_link" : "password"));
+    setGeneralError(null);
+  }, []);
+
+  /**
+   * Navigate to forgot password screen
+   */
+  const handleForgotPasswordNavigation = useCallback(() => {
+    router.push("/auth/forgot-password");
   }, []);
 
   /**
@@ -212,19 +220,20 @@ export const LoginScreen: React.FC = () => {
   return (
     <AuthLayout headerContent={renderHeader()} footerContent={renderFooter()}>
       <View style={styles.form}>
+        {/* Accounts still signed in on this device */}
+        <AccountSwitcher title="Continue as" showAddAccount={false} />
+
         {/* General Error Display */}
         <FormError
-          message={errors.general || loginError || ""}
-          visible={!!errors.general || !!loginError}
+          message={generalError || throttleMessage || loginError || ""}
+          visible={!!generalError || !!throttleMessage || !!loginError}
         />
 
         {/* Email Input */}
         <FormInput
           label="Email"
           placeholder="Enter your email"
-          value={formData.email}
-          onChangeText={(text) => handleFieldChange("email", text)}
-          error={errors.email}
+          {...form.getFieldProps("email")}
           leftIcon="mail-outline"
           keyboardType="email-address"
           autoCapitalize="none"
@@ -232,49 +241,79 @@ export const LoginScreen: React.FC = () => {
           textContentType="emailAddress"
         />
 
-        {/* Password Input */}
-        <FormInput
-          label="Password"
-          placeholder="Enter your password"
-          value={formData.password}
-          onChangeText={(text) => handleFieldChange("password", text)}
-          error={errors.password}
-          leftIcon="lock-closed-outline"
-          isPassword
-          autoComplete="current-password"
-          textContentType="password"
-        />
+        {mode === "password" ? (
+          <>
+            {/* Password Input */}
+            <FormInput
+              label="Password"
+              placeholder="Enter your password"
+              {...form.getFieldProps("password")}
+              leftIcon="lock-closed-outline"
+              isPassword
+              autoComplete="current-password"
+              textContentType="password"
+            />
 
-        {/* Login Button */}
-        <FormButton
-          title="Sign In"
-          onPress={handleLogin}
-          loading={loginLoading}
-          disabled={loginLoading}
-          variant="primary"
-          containerStyle={styles.loginButton}
-        />
+            {/* Forgot Password Link */}
+            <ThemedText
+              style={[styles.forgotPasswordText, { color: linkColor }]}
+              onPress={handleForgotPasswordNavigation}
+            >
+              Forgot password?
+            </ThemedText>
 
-        {/* Divider */}
-        <View style={styles.dividerContainer}>
-          <View
-            style={[styles.dividerLine, { backgroundColor: subtitleColor }]}
+            {/* Login Button */}
+            <FormButton
+              title={
+                isThrottled
+                  ? `Try again in ${formatCountdown(throttleSecondsLeft)}`
+                  : "Sign In"
+              }
+              onPress={handleLogin}
+              loading={loginLoading}
+              disabled={loginLoading || isThrottled}
+              variant="primary"
+              containerStyle={styles.loginButton}
+            />
+          </>
+        ) : (
+          /* Magic Link Button */
+          <FormButton
+            title="Email Me a Sign-In Link"
+            onPress={handleSendMagicLink}
+            loading={magicLinkRequestLoading}
+            disabled={magicLinkRequestLoading}
+            variant="primary"
+            leftIcon="mail-outline"
+            containerStyle={styles.loginButton}
           />
-          <ThemedText style={[styles.dividerText, { color: subtitleColor }]}>
-            or
-          </ThemedText>
-          <View
-            style={[styles.dividerLine, { backgroundColor: subtitleColor }]}
-          />
-        </View>
+        )}
 
-        {/* Google Login Button */}
+        {/* Sign-in Mode Toggle */}
         <FormButton
-          title="Continue with Google"
-          onPress={handleGoogleLogin}
-          variant="google"
-          leftIcon="logo-google"
-          containerStyle={styles.googleButton}
+          title={
+            mode === "password"
+              ? "Sign in with an email link instead"
+              : "Sign in with a password instead"
+          }
+          onPress={handleToggleMode}
+          variant="ghost"
+          containerStyle={styles.secondaryButton}
+        />
+
+        {/* Passkey Sign-in (web) */}
+        <PasskeySignInButton
+          email={form.values.email}
+          onStart={() => setGeneralError(null)}
+          onError={setGeneralError}
+          containerStyle={styles.secondaryButton}
+        />
+
+        {/* Social / SSO Sign-in */}
+        <OAuthProviderButtons
+          mode="login"
+          onStart={() => setGeneralError(null)}
+          onError={setGeneralError}
         />
       </View>
     </AuthLayout>
@@ -328,25 +367,16 @@ const styles = StyleSheet.create({
   form: {
     width: "100%",
   },
+  forgotPasswordText: {
+    alignSelf: "flex-end",
+    fontSize: COMMON_FONT_SIZES.sm,
+    fontWeight: "600",
+  },
   loginButton: {
     marginTop: COMMON_SPACING.md,
   },
-  dividerContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    marginVertical: COMMON_SPACING.xl,
-  },
-  dividerLine: {
-    flex: 1,
-    height: 1,
-    opacity: 0.3,
-  },
-  dividerText: {
-    marginHorizontal: COMMON_SPACING.md,
-    fontSize: COMMON_FONT_SIZES.sm,
-  },
-  googleButton: {
-    marginBottom: COMMON_SPACING.md,
+  secondaryButton: {
+    marginTop: COMMON_SPACING.sm,
   },
   footer: {
     alignItems: "center",
@@ -0,0 +1,202 @@
+import { useAuth } from "@/hooks/useAuth";
+import { useCooldown } from "@/hooks/useCooldown";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { COMMON_FONT_SIZES, COMMON_SPACING } from "@/utils/responsive";
+import { router } from "expo-router";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+import { ThemedText } from "../ThemedText";
+import { AuthHeader } from "./AuthHeader";
+import { AuthLayout } from "./AuthLayout";
+import { FormButton } from "./FormButton";
+import { FormError } from "./FormError";
+
+/**
+ * Seconds before another sign-in link can be requested
+ */
+const RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * MagicLinkScreen Props Interface
+ */
+export interface MagicLinkScreenProps {
+  email?: string;
+  code?: string;
+  emailSent?: boolean;
+}
+
+/**
+ * Magic Link Screen Component
+ *
+ * Design Patterns Used:
+ * - State Pattern: Waiting for the email, or signing in from a link
+ * - Command Pattern: Encapsulates exchange and resend operations
+ *
+ * Shown after requesting a sign-in link from LoginScreen. Opening the
+ * link lands here with its one-time code, which is exchanged for a
+ * session straight away.
+ */
+export const MagicLinkScreen: React.FC<MagicLinkScreenProps> = ({
+  email,
+  code,
+  emailSent = false,
+}) => {
+  const [isExchanging, setIsExchanging] = useState(!!code);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const exchangedCodeRef = useRef<string | null>(null);
+
+  const { exchangeMagicLink, requestMagicLink, magicLinkRequestLoading } =
+    useAuth();
+  const resendCooldown = useCooldown(RESEND_COOLDOWN_SECONDS, emailSent);
+
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const successColor = useThemeColor(
+    { light: "#28a745", dark: "#30d158" },
+    "text",
+  );
+
+  /**
+   * Exchange the code from the link once
+   * (codes are single use, so a repeated effect must not resubmit it)
+   */
+  useEffect(() => {
+    if (!code || exchangedCodeRef.current === code) return;
+    exchangedCodeRef.current = code;
+
+    exchangeMagicLink(
+      { code },
+      {
+        // Navigation follows the auth state change, like a normal login
+        onError: (exchangeError) => {
+          setIsExchanging(false);
+          setError(
+            exchangeError.kind === "validation" || exchangeError.kind === "auth"
+              ? "This sign-in link is invalid or has expired. Please request a new one."
+              : exchangeError.message,
+          );
+        },
+      },
+    );
+  }, [code, exchangeMagicLink]);
+
+  /**
+   * Handle resend with cooldown
+   */
+  const handleResend = useCallback(() => {
+    if (!email || resendCooldown.isCoolingDown) return;
+
+    setMessage(null);
+    setError(null);
+    requestMagicLink(
+      { email },
+      {
+        onSuccess: () => {
+          resendCooldown.start();
+          setMessage(`We've sent a new sign-in link to ${email}.`);
+        },
+        onError: (resendError) => setError(resendError.message),
+      },
+    );
+  }, [email, resendCooldown, requestMagicLink]);
+
+  const handleLoginNavigation = useCallback(() => {
+    router.replace({
+      pathname: "/auth/login",
+      params: email ? { email } : {},
+    });
+  }, [email]);
+
+  if (isExchanging) {
+    return (
+      <AuthLayout
+        headerContent={
+          <AuthHeader icon="mail-open-outline" title="Signing You In" />
+        }
+      >
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout
+      headerContent={
+        <AuthHeader
+          icon="mail-unread-outline"
+          title="Check Your Inbox"
+          subtitle={
+            email
+              ? `We sent a sign-in link to ${email}. Open it on this device to sign in.`
+              : "Open the sign-in link we emailed you on this device to sign in."
+          }
+        />
+      }
+    >
+      <View style={styles.form}>
+        <FormError message={error || ""} visible={!!error} />
+
+        {message && (
+          <ThemedText style={[styles.message, { color: successColor }]}>
+            {message}
+          </ThemedText>
+        )}
+
+        {email && (
+          <FormButton
+            title={
+              resendCooldown.isCoolingDown
+                ? `Resend link in ${resendCooldown.remaining}s`
+                : "Resend sign-in link"
+            }
+            onPress={handleResend}
+            loading={magicLinkRequestLoading}
+            disabled={resendCooldown.isCoolingDown || magicLinkRequestLoading}
+            variant="outline"
+            containerStyle={styles.button}
+          />
+        )}
+
+        <FormButton
+          title="Back to Sign In"
+          onPress={handleLoginNavigation}
+          variant="ghost"
+          containerStyle={styles.button}
+        />
+
+        <ThemedText style={[styles.hint, { color: subtitleColor }]}>
+          The link can only be used once and expires shortly. Can&apos;t find
+          it? Check your spam folder.
+        </ThemedText>
+      </View>
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  form: {
+    width: "100%",
+  },
+  centered: {
+    alignItems: "center",
+    paddingVertical: COMMON_SPACING.xl,
+  },
+  button: {
+    marginTop: COMMON_SPACING.md,
+  },
+  message: {
+    textAlign: "center",
+    fontSize: COMMON_FONT_SIZES.sm,
+    marginVertical: COMMON_SPACING.sm,
+  },
+  hint: {
+    textAlign: "center",
+    fontSize: COMMON_FONT_SIZES.sm,
+    marginTop: COMMON_SPACING.lg,
+  },
+});
@@ -0,0 +1,139 @@
+import {
+  getEnabledOAuthProviders,
+  OAuthProvider,
+} from "@/constants/OAuthProviders";
+import { useAuth } from "@/hooks/useAuth";
+import { useOAuthSignIn } from "@/hooks/useOAuthSignIn";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { COMMON_FONT_SIZES, COMMON_SPACING } from "@/utils/responsive";
+import React, { useCallback } from "react";
+import { StyleSheet, View } from "react-native";
+import { ThemedText } from "../ThemedText";
+import { FormButton } from "./FormButton";
+
+/**
+ * OAuthProviderButtons Props Interface
+ */
+export interface OAuthProviderButtonsProps {
+  mode: "login" | "signup";
+  onStart?: () => void;
+  onError: (message: string) => void;
+}
+
+interface OAuthProviderButtonProps extends OAuthProviderButtonsProps {
+  provider: OAuthProvider;
+}
+
+/**
+ * Single provider button
+ * Each button owns its auth request, so providers don't share PKCE state
+ */
+const OAuthProviderButton: React.FC<OAuthProviderButtonProps> = ({
+  provider,
+  mode,
+  onStart,
+  onError,
+}) => {
+  const { oauthLogin, oauthLoginLoading } = useAuth();
+  const { promptSignIn, isReady, isPrompting } = useOAuthSignIn(provider);
+
+  /**
+   * Run the browser flow, then exchange the credential with the backend
+   * Command Pattern: Encapsulates the provider sign-in operation
+   */
+  const handlePress = useCallback(async () => {
+    onStart?.();
+
+    const result = await promptSignIn();
+    switch (result.type) {
+      case "success":
+        oauthLogin({ providerId: provider.id, credential: result.credential });
+        break;
+      case "cancelled":
+        onError(
+          `${provider.name} ${mode === "login" ? "sign-in" : "sign-up"} was cancelled.`,
+        );
+        break;
+      case "error":
+        onError(result.message);
+        break;
+    }
+  }, [provider, mode, onStart, onError, promptSignIn, oauthLogin]);
+
+  return (
+    <FormButton
+      title={`Continue with ${provider.name}`}
+      onPress={handlePress}
+      loading={isPrompting || oauthLoginLoading}
+      disabled={!isReady || isPrompting || oauthLoginLoading}
+      variant="oauth"
+      brand={provider.branding}
+      leftIcon={provider.branding.icon}
+      containerStyle={styles.providerButton}
+    />
+  );
+};
+
+/**
+ * Social / SSO Sign-in Buttons
+ *
+ * Design Patterns Used:
+ * - Registry Pattern: Renders whatever providers the build enables
+ * - Composite Pattern: One button component per provider entry
+ *
+ * Renders nothing (not even the divider) when no provider is enabled.
+ */
+export const OAuthProviderButtons: React.FC<OAuthProviderButtonsProps> = (
+  props,
+) => {
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const providers = getEnabledOAuthProviders();
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {/* Divider */}
+      <View style={styles.dividerContainer}>
+        <View
+          style={[styles.dividerLine, { backgroundColor: subtitleColor }]}
+        />
+        <ThemedText style={[styles.dividerText, { color: subtitleColor }]}>
+          or
+        </ThemedText>
+        <View
+          style={[styles.dividerLine, { backgroundColor: subtitleColor }]}
+        />
+      </View>
+
+      {providers.map((provider) => (
+        <OAuthProviderButton key={provider.id} provider={provider} {...props} />
+      ))}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  dividerContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginVertical: COMMON_SPACING.xl,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    opacity: 0.3,
+  },
+  dividerText: {
+    marginHorizontal: COMMON_SPACING.md,
+    fontSize: COMMON_FONT_SIZES.sm,
+  },
+  providerButton: {
+    marginBottom: COMMON_SPACING.md,
+  },
+});
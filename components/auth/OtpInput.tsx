@@ -0,0 +1,179 @@
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  COMMON_BORDER_RADIUS,
+  COMMON_FONT_SIZES,
+  COMMON_SPACING,
+  responsiveDimensions,
+} from "@/utils/responsive";
+import React, { useRef, useState } from "react";
+import { Platform, Pressable, StyleSheet, TextInput, View } from "react-native";
+import { ThemedText } from "../ThemedText";
+
+/**
+ * OtpInput Props Interface
+ */
+export interface OtpInputProps {
+  value: string;
+  onChangeText: (code: string) => void;
+  onComplete?: (code: string) => void; // Called once every digit is filled
+  length?: number;
+  label?: string;
+  error?: string;
+  autoFocus?: boolean;
+  editable?: boolean;
+  containerStyle?: any;
+}
+
+/**
+ * Segmented One-Time Code Input
+ *
+ * Design Patterns Used:
+ * - Composition Pattern: One hidden input rendered as a row of digit cells
+ * - State Pattern: Highlights the cell the next digit goes into
+ *
+ * A single TextInput keeps paste and SMS/password-manager autofill
+ * working; the cells only display its value. Non-digits are dropped.
+ */
+export const OtpInput: React.FC<OtpInputProps> = ({
+  value,
+  onChangeText,
+  onComplete,
+  length = 6,
+  label,
+  error,
+  autoFocus = false,
+  editable = true,
+  containerStyle,
+}) => {
+  const inputRef = useRef<TextInput>(null);
+  const [isFocused, setIsFocused] = useState(false);
+
+  // Same palette as FormInput
+  const textColor = useThemeColor({}, "text");
+  const backgroundColor = useThemeColor(
+    { light: "#f8f9fa", dark: "#2c2c2e" },
+    "background",
+  );
+  const idleBorderColor = useThemeColor(
+    {
+      light: error ? "#dc3545" : "#e1e5e9",
+      dark: error ? "#ff453a" : "#3a3a3c",
+    },
+    "text",
+  );
+  const activeBorderColor = useThemeColor(
+    { light: "#007AFF", dark: "#0a84ff" },
+    "tint",
+  );
+  const errorColor = useThemeColor(
+    { light: "#dc3545", dark: "#ff453a" },
+    "text",
+  );
+
+  const handleChangeText = (text: string) => {
+    const code = text.replace(/\D/g, "").slice(0, length);
+    onChangeText(code);
+
+    if (code.length === length && code !== value) {
+      onComplete?.(code);
+    }
+  };
+
+  const activeIndex = Math.min(value.length, length - 1);
+
+  return (
+    <View style={[styles.container, containerStyle]}>
+      {label && <ThemedText style={styles.label}>{label}</ThemedText>}
+
+      <Pressable
+        style={styles.cells}
+        onPress={() => inputRef.current?.focus()}
+        disabled={!editable}
+        accessibilityLabel={label ?? "Verification code"}
+      >
+        {Array.from({ length }, (_, index) => {
+          const isActive = isFocused && index === activeIndex;
+          return (
+            <View
+              key={index}
+              style={[
+                styles.cell,
+                {
+                  backgroundColor,
+                  borderColor: isActive ? activeBorderColor : idleBorderColor,
+                  borderWidth: isActive ? 2 : 1,
+                },
+              ]}
+            >
+              <ThemedText style={[styles.digit, { color: textColor }]}>
+                {value[index] ?? ""}
+              </ThemedText>
+            </View>
+          );
+        })}
+      </Pressable>
+
+      <TextInput
+        ref={inputRef}
+        value={value}
+        onChangeText={handleChangeText}
+        maxLength={length}
+        keyboardType="number-pad"
+        textContentType="oneTimeCode"
+        autoComplete={Platform.OS === "android" ? "sms-otp" : "one-time-code"}
+        autoFocus={autoFocus}
+        editable={editable}
+        caretHidden
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        style={styles.hiddenInput}
+      />
+
+      {error && (
+        <ThemedText style={[styles.errorText, { color: errorColor }]}>
+          {error}
+        </ThemedText>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: COMMON_SPACING.md,
+  },
+  label: {
+    fontSize: COMMON_FONT_SIZES.sm,
+    fontWeight: "600",
+    marginBottom: COMMON_SPACING.xs,
+  },
+  cells: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: COMMON_SPACING.sm,
+  },
+  cell: {
+    flex: 1,
+    maxWidth: responsiveDimensions.spacing(52),
+    aspectRatio: 0.85,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: COMMON_BORDER_RADIUS.md,
+  },
+  digit: {
+    fontSize: COMMON_FONT_SIZES.xl,
+    fontWeight: "600",
+  },
+  // Kept focusable and on screen (off-screen inputs lose autofill on iOS)
+  hiddenInput: {
+    position: "absolute",
+    width: 1,
+    height: 1,
+    opacity: 0,
+  },
+  errorText: {
+    fontSize: COMMON_FONT_SIZES.sm,
+    marginTop: COMMON_SPACING.xs,
+    marginLeft: COMMON_SPACING.xs,
+  },
+});
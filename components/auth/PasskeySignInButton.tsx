@@ -0,0 +1,65 @@
+import { useAuth } from "@/hooks/useAuth";
+import { usePasskeySignIn } from "@/hooks/usePasskeys";
+import React, { useCallback } from "react";
+import { ViewStyle } from "react-native";
+import { FormButton } from "./FormButton";
+
+/**
+ * PasskeySignInButton Props Interface
+ */
+export interface PasskeySignInButtonProps {
+  email?: string; // Narrows the prompt to this account's passkeys
+  onStart?: () => void;
+  onError: (message: string) => void;
+  containerStyle?: ViewStyle;
+}
+
+/**
+ * "Sign in with passkey" Button
+ *
+ * Design Patterns Used:
+ * - Command Pattern: Encapsulates the passkey sign-in operation
+ * - Null Object Pattern: Renders nothing where passkeys aren't supported
+ */
+export const PasskeySignInButton: React.FC<PasskeySignInButtonProps> = ({
+  email,
+  onStart,
+  onError,
+  containerStyle,
+}) => {
+  const { passkeyLogin, passkeyLoginLoading } = useAuth();
+  const { promptPasskey, isSupported, isPrompting } = usePasskeySignIn();
+
+  const handlePress = useCallback(async () => {
+    onStart?.();
+
+    const result = await promptPasskey(email?.trim() || undefined);
+    switch (result.type) {
+      case "success":
+        passkeyLogin(result.credential);
+        break;
+      case "cancelled":
+        onError("Passkey sign-in was cancelled.");
+        break;
+      case "error":
+        onError(result.message);
+        break;
+    }
+  }, [email, onStart, onError, promptPasskey, passkeyLogin]);
+
+  if (!isSupported) {
+    return null;
+  }
+
+  return (
+    <FormButton
+      title="Sign in with passkey"
+      onPress={handlePress}
+      loading={isPrompting || passkeyLoginLoading}
+      disabled={isPrompting || passkeyLoginLoading}
+      variant="outline"
+      leftIcon="finger-print-outline"
+      containerStyle={containerStyle}
+    />
+  );
+};
@@ -0,0 +1,131 @@
+import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  evaluatePassword,
+  MAX_PASSWORD_SCORE,
+  PasswordStrength,
+} from "@/utils/passwordPolicy";
+import { COMMON_FONT_SIZES, COMMON_SPACING } from "@/utils/responsive";
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import { ThemedText } from "../ThemedText";
+
+/**
+ * PasswordStrengthMeter Props Interface
+ */
+export interface PasswordStrengthMeterProps {
+  password: string;
+  userInputs?: string[]; // The user's own details, e.g. their email
+}
+
+/**
+ * Password Strength Indicator
+ *
+ * Design Patterns Used:
+ * - Null Object Pattern: Renders nothing until a password is entered
+ * - Factory Pattern: Creates the bar color from the strength level
+ *
+ * Shown under every "new password" field (signup, reset password),
+ * with the policy's first suggestion for improving it.
+ */
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({
+  password,
+  userInputs,
+}) => {
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const successColor = useThemeColor(
+    { light: "#28a745", dark: "#30d158" },
+    "text",
+  );
+  const warningColor = useThemeColor(
+    { light: "#ffc107", dark: "#ff9f0a" },
+    "text",
+  );
+  const backgroundColor = useThemeColor(
+    { light: "#e9ecef", dark: "#3a3a3c" },
+    "background",
+  );
+
+  /**
+   * Get password strength color
+   * Factory Pattern: Creates appropriate color based on strength
+   */
+  const getPasswordStrengthColor = (strength: PasswordStrength): string => {
+    switch (strength) {
+      case "weak":
+        return "#dc3545";
+      case "fair":
+        return warningColor;
+      case "good":
+        return "#fd7e14";
+      case "strong":
+        return successColor;
+      default:
+        return subtitleColor;
+    }
+  };
+
+  if (!password.trim()) return null;
+
+  const passwordValidation = evaluatePassword(password, userInputs);
+  const strengthColor = getPasswordStrengthColor(passwordValidation.strength);
+
+  return (
+    <View style={styles.passwordStrengthContainer}>
+      <View style={styles.strengthBarContainer}>
+        {Array.from({ length: MAX_PASSWORD_SCORE }, (_, i) => i + 1).map(
+          (index) => (
+            <View
+              key={index}
+              style={[
+                styles.strengthBar,
+                {
+                  backgroundColor:
+                    index <= passwordValidation.score
+                      ? strengthColor
+                      : backgroundColor,
+                },
+              ]}
+            />
+          ),
+        )}
+      </View>
+      <ThemedText style={[styles.strengthText, { color: strengthColor }]}>
+        {passwordValidation.strength.charAt(0).toUpperCase() +
+          passwordValidation.strength.slice(1)}
+      </ThemedText>
+      {passwordValidation.feedback.length > 0 && (
+        <ThemedText style={[styles.feedbackText, { color: subtitleColor }]}>
+          {passwordValidation.feedback[0]}
+        </ThemedText>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  passwordStrengthContainer: {
+    marginTop: -COMMON_SPACING.sm,
+    marginBottom: COMMON_SPACING.md,
+  },
+  strengthBarContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: COMMON_SPACING.xs,
+  },
+  strengthBar: {
+    flex: 1,
+    height: 3,
+    marginHorizontal: 1,
+    borderRadius: 2,
+  },
+  strengthText: {
+    fontSize: COMMON_FONT_SIZES.xs,
+    fontWeight: "500",
+  },
+  feedbackText: {
+    fontSize: COMMON_FONT_SIZES.xs,
+  },
+});
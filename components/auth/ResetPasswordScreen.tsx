@@ -0,0 +1,181 @@
+import { resetPasswordFormSchema } from "@/api/authSchemas";
+import { useAuth } from "@/hooks/useAuth";
+import { useZodForm } from "@/hooks/useZodForm";
+import { validatePasswordNotBreached } from "@/utils/passwordPolicy";
+import { COMMON_SPACING } from "@/utils/responsive";
+import { router } from "expo-router";
+import React, { useCallback, useState } from "react";
+import { StyleSheet, View } from "react-native";
+import { AuthHeader } from "./AuthHeader";
+import { AuthLayout } from "./AuthLayout";
+import { FormButton } from "./FormButton";
+import { FormError } from "./FormError";
+import { FormInput } from "./FormInput";
+import { PasswordStrengthMeter } from "./PasswordStrengthMeter";
+
+/**
+ * ResetPasswordScreen Props Interface
+ */
+export interface ResetPasswordScreenProps {
+  token?: string;
+}
+
+/**
+ * Reset Password Screen Component
+ *
+ * Design Patterns Used:
+ * - Strategy Pattern: Same password policy as signup, breach check included
+ * - Command Pattern: Encapsulates the password reset operation
+ *
+ * Opened from the reset email link, which carries the one-time token.
+ * On success the screen switches to a confirmation with a way to sign in.
+ */
+export const ResetPasswordScreen: React.FC<ResetPasswordScreenProps> = ({
+  token,
+}) => {
+  const form = useZodForm({
+    schema: resetPasswordFormSchema,
+    initialValues: { password: "", confirmPassword: "" },
+    asyncValidators: { password: validatePasswordNotBreached },
+  });
+  const [generalError, setGeneralError] = useState<string | null>(null);
+  const [passwordUpdated, setPasswordUpdated] = useState(false);
+
+  const { resetPassword, resetPasswordLoading } = useAuth();
+
+  /**
+   * Handle password reset submission
+   */
+  const handleSubmit = form.handleSubmit(({ password }) => {
+    if (!token) {
+      return;
+    }
+
+    setGeneralError(null);
+    resetPassword(
+      { token, password },
+      {
+        onSuccess: () => setPasswordUpdated(true),
+        onError: (error) => {
+          if (error.kind === "validation" && error.fieldErrors.password) {
+            form.setFieldError("password", error.fieldErrors.password);
+            return;
+          }
+
+          setGeneralError(
+            error.kind === "validation" || error.kind === "auth"
+              ? "This reset link is invalid or has expired. Please request a new one."
+              : error.message,
+          );
+        },
+      },
+    );
+  });
+
+  const handleRequestNewLink = useCallback(() => {
+    router.replace("/auth/forgot-password");
+  }, []);
+
+  const handleLoginNavigation = useCallback(() => {
+    router.replace("/auth/login");
+  }, []);
+
+  if (passwordUpdated) {
+    return (
+      <AuthLayout
+        headerContent={
+          <AuthHeader
+            icon="checkmark-circle-outline"
+            title="Password Updated"
+            subtitle="Your password has been reset. Please sign in with your new password."
+          />
+        }
+      >
+        <FormButton
+          title="Continue to Sign In"
+          onPress={handleLoginNavigation}
+          variant="primary"
+        />
+      </AuthLayout>
+    );
+  }
+
+  const header = (
+    <AuthHeader
+      icon="lock-open-outline"
+      title="Reset Password"
+      subtitle="Choose a new password for your account"
+    />
+  );
+
+  // Link opened without a token (truncated or hand-typed URL)
+  if (!token) {
+    return (
+      <AuthLayout headerContent={header}>
+        <FormError message="This reset link is incomplete. Please request a new one." />
+        <FormButton
+          title="Request New Link"
+          onPress={handleRequestNewLink}
+          variant="primary"
+          containerStyle={styles.submitButton}
+        />
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout headerContent={header}>
+      <View style={styles.form}>
+        <FormError message={generalError || ""} visible={!!generalError} />
+
+        <FormInput
+          label="New Password"
+          placeholder="Create a new password"
+          {...form.getFieldProps("password")}
+          leftIcon="lock-closed-outline"
+          isPassword
+          autoComplete="new-password"
+          textContentType="newPassword"
+        />
+
+        <PasswordStrengthMeter password={form.values.password} />
+
+        <FormInput
+          label="Confirm Password"
+          placeholder="Confirm your new password"
+          {...form.getFieldProps("confirmPassword")}
+          leftIcon="lock-closed-outline"
+          isPassword
+          autoComplete="new-password"
+          textContentType="newPassword"
+        />
+
+        <FormButton
+          title="Reset Password"
+          onPress={handleSubmit}
+          loading={form.isValidating || resetPasswordLoading}
+          disabled={form.isValidating || resetPasswordLoading}
+          variant="primary"
+          containerStyle={styles.submitButton}
+        />
+
+        {generalError && (
+          <FormButton
+            title="Request New Link"
+            onPress={handleRequestNewLink}
+            variant="ghost"
+          />
+        )}
+      </View>
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  form: {
+    width: "100%",
+  },
+  submitButton: {
+    marginTop: COMMON_SPACING.md,
+  },
+});
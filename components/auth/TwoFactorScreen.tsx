@@ -0,0 +1,222 @@
+import { ApiError } from "@/api/errors";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  authSelectors,
+  TwoFactorMethod,
+  useAuthStore,
+} from "@/store/authStore";
+import { COMMON_SPACING } from "@/utils/responsive";
+import { router } from "expo-router";
+import React, { useCallback, useState } from "react";
+import { StyleSheet, View } from "react-native";
+import { AuthHeader } from "./AuthHeader";
+import { AuthLayout } from "./AuthLayout";
+import { FormButton } from "./FormButton";
+import { FormError } from "./FormError";
+import { FormInput } from "./FormInput";
+import { OtpInput } from "./OtpInput";
+
+const TOTP_LENGTH = 6;
+
+/**
+ * Message for a rejected code; a rejected challenge means starting over
+ */
+const getVerifyErrorMessage = (
+  error: ApiError,
+  method: TwoFactorMethod,
+): string => {
+  if (error.kind === "auth" && error.code === "CHALLENGE_EXPIRED") {
+    return "This sign-in attempt has expired. Please sign in again.";
+  }
+
+  if (error.kind === "auth" || error.kind === "validation") {
+    return method === "totp"
+      ? "That code didn't work. Check your authenticator app and try again."
+      : "That backup code is invalid or has already been used.";
+  }
+
+  return error.message;
+};
+
+/**
+ * Two-Factor Challenge Screen Component
+ *
+ * Design Patterns Used:
+ * - State Pattern: Switches between authenticator and backup code entry
+ * - Command Pattern: Encapsulates the verification operation
+ *
+ * Shown when a login answers with a two-factor challenge. The challenge
+ * lives in the auth store, so opening this route directly (or after a
+ * reload) just sends the user back to sign in.
+ */
+export const TwoFactorScreen: React.FC = () => {
+  const challenge = useAuthStore(authSelectors.twoFactorChallenge);
+  const setTwoFactorChallenge = useAuthStore(
+    (state) => state.setTwoFactorChallenge,
+  );
+  const [method, setMethod] = useState<TwoFactorMethod>(
+    challenge?.methods.includes("totp") === false ? "backup_code" : "totp",
+  );
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const { verifyTwoFactor, verifyTwoFactorLoading } = useAuth();
+
+  /**
+   * Submit the code; TOTP codes are submitted as soon as they're complete
+   */
+  const handleVerify = useCallback(
+    (submittedCode: string = code) => {
+      if (!challenge) return;
+
+      const trimmed = submittedCode.trim();
+      if (method === "totp" && trimmed.length !== TOTP_LENGTH) {
+        setError(`Enter the ${TOTP_LENGTH}-digit code from your app.`);
+        return;
+      }
+      if (!trimmed) {
+        setError("Enter one of your backup codes.");
+        return;
+      }
+
+      setError(null);
+      verifyTwoFactor(
+        { challengeToken: challenge.challengeToken, method, code: trimmed },
+        {
+          // Navigation follows the auth state change, like a normal login
+          onError: (verifyError) => {
+            setCode("");
+            setError(getVerifyErrorMessage(verifyError, method));
+          },
+        },
+      );
+    },
+    [challenge, code, method, verifyTwoFactor],
+  );
+
+  const handleToggleMethod = useCallback(() => {
+    setMethod((current) => (current === "totp" ? "backup_code" : "totp"));
+    setCode("");
+    setError(null);
+  }, []);
+
+  const handleBackToLogin = useCallback(() => {
+    const email = challenge?.email;
+    setTwoFactorChallenge(null);
+    router.replace({
+      pathname: "/auth/login",
+      params: email ? { email } : {},
+    });
+  }, [challenge, setTwoFactorChallenge]);
+
+  if (!challenge) {
+    return (
+      <AuthLayout
+        headerContent={
+          <AuthHeader
+            icon="shield-checkmark-outline"
+            title="Two-Factor Authentication"
+          />
+        }
+      >
+        <FormError message="This sign-in attempt has expired. Please sign in again." />
+        <FormButton
+          title="Back to Sign In"
+          onPress={handleBackToLogin}
+          variant="primary"
+          containerStyle={styles.button}
+        />
+      </AuthLayout>
+    );
+  }
+
+  const canUseOtherMethod = challenge.methods.includes(
+    method === "totp" ? "backup_code" : "totp",
+  );
+
+  return (
+    <AuthLayout
+      headerContent={
+        <AuthHeader
+          icon="shield-checkmark-outline"
+          title="Two-Factor Authentication"
+          subtitle={
+            method === "totp"
+              ? "Enter the 6-digit code from your authenticator app"
+              : "Enter one of the backup codes you saved when you set up two-factor authentication"
+          }
+        />
+      }
+    >
+      <View style={styles.form}>
+        <FormError message={error || ""} visible={!!error} />
+
+        {method === "totp" ? (
+          <OtpInput
+            value={code}
+            onChangeText={(text) => {
+              setCode(text);
+              if (error) setError(null);
+            }}
+            onComplete={handleVerify}
+            length={TOTP_LENGTH}
+            editable={!verifyTwoFactorLoading}
+            autoFocus
+          />
+        ) : (
+          <FormInput
+            label="Backup Code"
+            placeholder="Enter a backup code"
+            value={code}
+            onChangeText={(text) => {
+              setCode(text);
+              if (error) setError(null);
+            }}
+            leftIcon="key-outline"
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+            onSubmitEditing={() => handleVerify()}
+          />
+        )}
+
+        <FormButton
+          title="Verify"
+          onPress={() => handleVerify()}
+          loading={verifyTwoFactorLoading}
+          disabled={verifyTwoFactorLoading}
+          variant="primary"
+          containerStyle={styles.button}
+        />
+
+        {canUseOtherMethod && (
+          <FormButton
+            title={
+              method === "totp"
+                ? "Use a backup code instead"
+                : "Use your authenticator app instead"
+            }
+            onPress={handleToggleMethod}
+            variant="ghost"
+            containerStyle={styles.button}
+          />
+        )}
+
+        <FormButton
+          title="Back to Sign In"
+          onPress={handleBackToLogin}
+          variant="ghost"
+        />
+      </View>
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  form: {
+    width: "100%",
+  },
+  button: {
+    marginTop: COMMON_SPACING.md,
+  },
+});
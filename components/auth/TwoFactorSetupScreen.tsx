@@ -0,0 +1,251 @@
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { useTwoFactorEnrollment } from "@/hooks/useTwoFactorEnrollment";
+import {
+  COMMON_BORDER_RADIUS,
+  COMMON_FONT_SIZES,
+  COMMON_SPACING,
+  responsiveDimensions,
+} from "@/utils/responsive";
+import { router } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, Platform, StyleSheet, View } from "react-native";
+import QRCode from "react-native-qrcode-svg";
+import { ThemedText } from "../ThemedText";
+import { AuthHeader } from "./AuthHeader";
+import { AuthLayout } from "./AuthLayout";
+import { FormButton } from "./FormButton";
+import { FormError } from "./FormError";
+import { OtpInput } from "./OtpInput";
+
+const TOTP_LENGTH = 6;
+
+/**
+ * Two-Factor Enrollment Screen Component
+ *
+ * Design Patterns Used:
+ * - State Pattern: Scan the QR code, confirm a code, then save backup codes
+ * - Facade Pattern: Enrollment calls go through useTwoFactorEnrollment
+ *
+ * The secret is also shown as text for authenticator apps that can't
+ * scan. Backup codes are only returned once, right after confirming.
+ */
+export const TwoFactorSetupScreen: React.FC = () => {
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    startSetup,
+    confirm,
+    setup,
+    backupCodes,
+    setupLoading,
+    confirmLoading,
+    setupError,
+  } = useTwoFactorEnrollment();
+
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const panelColor = useThemeColor(
+    { light: "#f8f9fa", dark: "#2c2c2e" },
+    "background",
+  );
+
+  // Request a secret when the screen opens
+  useEffect(() => {
+    startSetup();
+  }, [startSetup]);
+
+  const handleConfirm = useCallback(
+    (submittedCode: string = code) => {
+      if (submittedCode.length !== TOTP_LENGTH) {
+        setError(`Enter the ${TOTP_LENGTH}-digit code from your app.`);
+        return;
+      }
+
+      setError(null);
+      confirm(
+        { code: submittedCode },
+        {
+          onError: (confirmError) => {
+            setCode("");
+            setError(
+              confirmError.kind === "validation" || confirmError.kind === "auth"
+                ? "That code didn't match. Wait for a new code and try again."
+                : confirmError.message,
+            );
+          },
+        },
+      );
+    },
+    [code, confirm],
+  );
+
+  const handleDone = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace("/");
+    }
+  }, []);
+
+  // Enabled: show the backup codes once
+  if (backupCodes) {
+    return (
+      <AuthLayout
+        headerContent={
+          <AuthHeader
+            icon="shield-checkmark-outline"
+            title="Two-Factor Enabled"
+            subtitle="Save these backup codes somewhere safe. Each one can be used once if you lose access to your authenticator app."
+          />
+        }
+      >
+        <View style={[styles.panel, { backgroundColor: panelColor }]}>
+          {backupCodes.map((backupCode) => (
+            <ThemedText key={backupCode} style={styles.code} selectable>
+              {backupCode}
+            </ThemedText>
+          ))}
+        </View>
+
+        <FormButton
+          title="I've Saved My Codes"
+          onPress={handleDone}
+          variant="primary"
+          containerStyle={styles.button}
+        />
+      </AuthLayout>
+    );
+  }
+
+  const header = (
+    <AuthHeader
+      icon="qr-code-outline"
+      title="Set Up Two-Factor Authentication"
+      subtitle="Scan the QR code with your authenticator app, then enter the 6-digit code it shows"
+    />
+  );
+
+  if (!setup) {
+    return (
+      <AuthLayout headerContent={header}>
+        {setupLoading || !setupError ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" />
+          </View>
+        ) : (
+          <>
+            <FormError message={setupError.message} />
+            <FormButton
+              title="Try Again"
+              onPress={() => startSetup()}
+              variant="primary"
+              containerStyle={styles.button}
+            />
+          </>
+        )}
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout headerContent={header}>
+      <View style={styles.form}>
+        <View style={styles.qrContainer}>
+          <QRCode
+            value={setup.otpauthUrl}
+            size={responsiveDimensions.spacing(200)}
+            quietZone={COMMON_SPACING.sm}
+          />
+        </View>
+
+        <ThemedText style={[styles.hint, { color: subtitleColor }]}>
+          Can&apos;t scan it? Enter this key manually:
+        </ThemedText>
+        <ThemedText
+          style={[styles.secret, { backgroundColor: panelColor }]}
+          selectable
+        >
+          {setup.secret}
+        </ThemedText>
+
+        <FormError message={error || ""} visible={!!error} />
+
+        <OtpInput
+          label="Confirmation Code"
+          value={code}
+          onChangeText={(text) => {
+            setCode(text);
+            if (error) setError(null);
+          }}
+          onComplete={handleConfirm}
+          length={TOTP_LENGTH}
+          editable={!confirmLoading}
+        />
+
+        <FormButton
+          title="Enable Two-Factor Authentication"
+          onPress={() => handleConfirm()}
+          loading={confirmLoading}
+          disabled={confirmLoading}
+          variant="primary"
+          containerStyle={styles.button}
+        />
+
+        <FormButton title="Cancel" onPress={handleDone} variant="ghost" />
+      </View>
+    </AuthLayout>
+  );
+};
+
+const monospace = Platform.select({
+  ios: "Menlo",
+  android: "monospace",
+  default: "monospace",
+});
+
+const styles = StyleSheet.create({
+  form: {
+    width: "100%",
+  },
+  centered: {
+    alignItems: "center",
+    paddingVertical: COMMON_SPACING.xl,
+  },
+  qrContainer: {
+    alignItems: "center",
+    marginBottom: COMMON_SPACING.md,
+  },
+  hint: {
+    textAlign: "center",
+    fontSize: COMMON_FONT_SIZES.sm,
+  },
+  secret: {
+    textAlign: "center",
+    fontFamily: monospace,
+    fontSize: COMMON_FONT_SIZES.md,
+    letterSpacing: 2,
+    padding: COMMON_SPACING.sm,
+    marginVertical: COMMON_SPACING.md,
+    borderRadius: COMMON_BORDER_RADIUS.md,
+  },
+  panel: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    padding: COMMON_SPACING.md,
+    borderRadius: COMMON_BORDER_RADIUS.md,
+  },
+  code: {
+    width: "50%",
+    textAlign: "center",
+    fontFamily: monospace,
+    fontSize: COMMON_FONT_SIZES.md,
+    paddingVertical: COMMON_SPACING.xs,
+  },
+  button: {
+    marginTop: COMMON_SPACING.md,
+  },
+});
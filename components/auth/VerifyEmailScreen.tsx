@@ -0,0 +1,228 @@
+import { useAuth } from "@/hooks/useAuth";
+import { useCooldown } from "@/hooks/useCooldown";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { COMMON_FONT_SIZES, COMMON_SPACING } from "@/utils/responsive";
+import { router } from "expo-router";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+import { ThemedText } from "../ThemedText";
+import { AuthHeader } from "./AuthHeader";
+import { AuthLayout } from "./AuthLayout";
+import { FormButton } from "./FormButton";
+import { FormError } from "./FormError";
+
+/**
+ * Seconds before another verification email can be requested
+ */
+const RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * VerifyEmailScreen Props Interface
+ */
+export interface VerifyEmailScreenProps {
+  email?: string;
+  token?: string;
+  emailSent?: boolean;
+}
+
+type VerificationStatus = "pending" | "verifying" | "verified";
+
+/**
+ * Verify Email Screen Component
+ *
+ * Design Patterns Used:
+ * - State Pattern: Waiting for the email, verifying a link, verified
+ * - Command Pattern: Encapsulates verify and resend operations
+ *
+ * Shown after signup and after a login refused for an unverified email.
+ * Opening the verification link lands here with a token, which is
+ * confirmed straight away.
+ */
+export const VerifyEmailScreen: React.FC<VerifyEmailScreenProps> = ({
+  email,
+  token,
+  emailSent = false,
+}) => {
+  const [status, setStatus] = useState<VerificationStatus>(
+    token ? "verifying" : "pending",
+  );
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const verifiedTokenRef = useRef<string | null>(null);
+
+  const { verifyEmail, resendVerificationEmail, resendVerificationLoading } =
+    useAuth();
+  const resendCooldown = useCooldown(RESEND_COOLDOWN_SECONDS, emailSent);
+
+  const subtitleColor = useThemeColor(
+    { light: "#6c757d", dark: "#8e8e93" },
+    "text",
+  );
+  const successColor = useThemeColor(
+    { light: "#28a745", dark: "#30d158" },
+    "text",
+  );
+
+  /**
+   * Confirm the token from the verification link once
+   * (tokens are single use, so a repeated effect must not resubmit it)
+   */
+  useEffect(() => {
+    if (!token || verifiedTokenRef.current === token) return;
+    verifiedTokenRef.current = token;
+
+    verifyEmail(
+      { token },
+      {
+        onSuccess: () => setStatus("verified"),
+        onError: (error) => {
+          setStatus("pending");
+          setError(
+            error.kind === "validation" || error.kind === "auth"
+              ? "This verification link is invalid or has expired."
+              : error.message,
+          );
+        },
+      },
+    );
+  }, [token, verifyEmail]);
+
+  /**
+   * Handle resend with cooldown
+   */
+  const handleResend = useCallback(() => {
+    if (!email || resendCooldown.isCoolingDown) return;
+
+    setMessage(null);
+    setError(null);
+    resendVerificationEmail(
+      { email },
+      {
+        onSuccess: () => {
+          resendCooldown.start();
+          setMessage(`We've sent a new verification link to ${email}.`);
+        },
+        onError: (error) => setError(error.message),
+      },
+    );
+  }, [email, resendCooldown, resendVerificationEmail]);
+
+  const handleLoginNavigation = useCallback(() => {
+    router.replace({
+      pathname: "/auth/login",
+      params: email ? { email } : {},
+    });
+  }, [email]);
+
+  const renderResendButton = () =>
+    email ? (
+      <FormButton
+        title={
+          resendCooldown.isCoolingDown
+            ? `Resend email in ${resendCooldown.remaining}s`
+            : "Resend verification email"
+        }
+        onPress={handleResend}
+        loading={resendVerificationLoading}
+        disabled={resendCooldown.isCoolingDown || resendVerificationLoading}
+        variant="outline"
+        containerStyle={styles.button}
+      />
+    ) : null;
+
+  if (status === "verifying") {
+    return (
+      <AuthLayout
+        headerContent={
+          <AuthHeader icon="mail-open-outline" title="Verifying Email" />
+        }
+      >
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      </AuthLayout>
+    );
+  }
+
+  if (status === "verified") {
+    return (
+      <AuthLayout
+        headerContent={
+          <AuthHeader
+            icon="checkmark-circle-outline"
+            title="Email Verified"
+            subtitle="Your email address is confirmed. You can now sign in."
+          />
+        }
+      >
+        <FormButton
+          title="Continue to Sign In"
+          onPress={handleLoginNavigation}
+          variant="primary"
+        />
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout
+      headerContent={
+        <AuthHeader
+          icon="mail-unread-outline"
+          title="Verify Your Email"
+          subtitle={
+            email
+              ? `We sent a verification link to ${email}. Open it on this device to activate your account.`
+              : "Open the verification link we emailed you to activate your account."
+          }
+        />
+      }
+    >
+      <View style={styles.form}>
+        <FormError message={error || ""} visible={!!error} />
+
+        {message && (
+          <ThemedText style={[styles.message, { color: successColor }]}>
+            {message}
+          </ThemedText>
+        )}
+
+        {renderResendButton()}
+
+        <FormButton
+          title="Back to Sign In"
+          onPress={handleLoginNavigation}
+          variant="ghost"
+          containerStyle={styles.button}
+        />
+
+        <ThemedText style={[styles.hint, { color: subtitleColor }]}>
+          Can&apos;t find it? Check your spam folder.
+        </ThemedText>
+      </View>
+    </AuthLayout>
+  );
+};
+
+const styles = StyleSheet.create({
+  form: {
+    width: "100%",
+  },
+  centered: {
+    alignItems: "center",
+    paddingVertical: COMMON_SPACING.xl,
+  },
+  button: {
+    marginTop: COMMON_SPACING.md,
+  },
+  message: {
+    textAlign: "center",
+    fontSize: COMMON_FONT_SIZES.sm,
+    marginVertical: COMMON_SPACING.sm,
+  },
+  hint: {
+    textAlign: "center",
+    fontSize: COMMON_FONT_SIZES.sm,
+    marginTop: COMMON_SPACING.lg,
+  },
+});
@@ -12,22 +12,57 @@
  */
 
 // Form Components
+export { ConsentCheckbox } from "./ConsentCheckbox";
+export { EmailAvailabilityHint } from "./EmailAvailabilityHint";
 export { FormButton } from "./FormButton";
 export { FormError } from "./FormError";
 export { FormInput } from "./FormInput";
+export { OAuthProviderButtons } from "./OAuthProviderButtons";
+export { OtpInput } from "./OtpInput";
+
+export { PasskeySignInButton } from "./PasskeySignInButton";
+export { PasswordStrengthMeter } from "./PasswordStrengthMeter";
 
 // Layout Components
+export { AuthHeader } from "./AuthHeader";
 export { AuthLayout } from "./AuthLayout";
 
 // Screen Components
+export { ConsentScreen } from "./ConsentScreen";
+export { ForbiddenScreen } from "./ForbiddenScreen";
+export { ForgotPasswordScreen } from "./ForgotPasswordScreen";
 export { LoginScreen } from "./LoginScreen";
+export { MagicLinkScreen } from "./MagicLinkScreen";
+export { ResetPasswordScreen } from "./ResetPasswordScreen";
 export { SignupScreen } from "./SignupScreen";
+export { TwoFactorScreen } from "./TwoFactorScreen";
+export { TwoFactorSetupScreen } from "./TwoFactorSetupScreen";
+export { VerifyEmailScreen } from "./VerifyEmailScreen";
 
 // Guard Components
 export { AuthGuard } from "./AuthGuard";
+export { Can } from "./Can";
 
 // Type Exports
+export type { AuthHeaderProps } from "./AuthHeader";
 export type { AuthLayoutProps } from "./AuthLayout";
-export type { ButtonSize, ButtonVariant, FormButtonProps } from "./FormButton";
+export type { CanProps } from "./Can";
+export type { ConsentCheckboxProps } from "./ConsentCheckbox";
+export type { EmailAvailabilityHintProps } from "./EmailAvailabilityHint";
+export type {
+  ButtonBrand,
+  ButtonSize,
+  ButtonVariant,
+  FormButtonProps,
+} from "./FormButton";
+export type { ForbiddenScreenProps } from "./ForbiddenScreen";
 export type { FormErrorProps } from "./FormError";
 export type { FormInputProps } from "./FormInput";
+export type { LoginScreenProps } from "./LoginScreen";
+export type { MagicLinkScreenProps } from "./MagicLinkScreen";
+export type { OAuthProviderButtonsProps } from "./OAuthProviderButtons";
+export type { OtpInputProps } from "./OtpInput";
+export type { PasskeySignInButtonProps } from "./PasskeySignInButton";
+export type { PasswordStrengthMeterProps } from "./PasswordStrengthMeter";
+export type { ResetPasswordScreenProps } from "./ResetPasswordScreen";
+export type { VerifyEmailScreenProps } from "./VerifyEmailScreen";
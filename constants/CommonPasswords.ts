@@ -0,0 +1,113 @@
+/**
+ * Most common passwords and password words, most common first
+ *
+ * Used by the password policy's dictionary check: a match costs only
+ * about log2(rank) bits, so the position in the list matters. Entries
+ * are lowercase and undo common leet substitutions ("p@ssw0rd" matches
+ * "password"); digit-only passwords are left to the sequence and
+ * repetition checks.
+ */
+export const COMMON_PASSWORDS = [
+  "password",
+  "qwerty",
+  "iloveyou",
+  "admin",
+  "welcome",
+  "monkey",
+  "login",
+  "abc",
+  "starwars",
+  "dragon",
+  "passw",
+  "master",
+  "hello",
+  "freedom",
+  "whatever",
+  "letmein",
+  "football",
+  "princess",
+  "sunshine",
+  "shadow",
+  "baseball",
+  "superman",
+  "trustno",
+  "michael",
+  "jennifer",
+  "charlie",
+  "donald",
+  "mustang",
+  "access",
+  "batman",
+  "secret",
+  "flower",
+  "hottie",
+  "loveme",
+  "zaq",
+  "ashley",
+  "bailey",
+  "soccer",
+  "hockey",
+  "killer",
+  "george",
+  "andrew",
+  "michelle",
+  "jessica",
+  "pepper",
+  "daniel",
+  "hunter",
+  "ranger",
+  "buster",
+  "thomas",
+  "robert",
+  "tigger",
+  "summer",
+  "winter",
+  "spring",
+  "autumn",
+  "cookie",
+  "cheese",
+  "computer",
+  "internet",
+  "matrix",
+  "orange",
+  "banana",
+  "purple",
+  "ginger",
+  "maggie",
+  "jordan",
+  "harley",
+  "yankees",
+  "liverpool",
+  "chelsea",
+  "arsenal",
+  "pokemon",
+  "naruto",
+  "minecraft",
+  "samsung",
+  "google",
+  "apple",
+  "iphone",
+  "changeme",
+  "default",
+  "guest",
+  "root",
+  "user",
+  "test",
+  "love",
+  "angel",
+  "baby",
+  "family",
+  "friend",
+  "lovely",
+  "money",
+  "magic",
+  "lucky",
+  "happy",
+  "smile",
+  "golden",
+  "silver",
+  "diamond",
+  "blessed",
+  "jesus",
+  "heaven",
+];
@@ -0,0 +1,22 @@
+/**
+ * Versions of the legal documents users must accept
+ *
+ * Bump a version whenever its document changes in a way that needs fresh
+ * consent: signed-in users who accepted an older version are asked to
+ * accept again before they can continue. Versions are compared for
+ * equality only, so any string works; dates keep them readable.
+ */
+export const LEGAL_DOCUMENTS = {
+  terms: {
+    title: "Terms of Service",
+    version: "2025-01-15",
+    url: "https://example.com/legal/terms",
+  },
+  privacy: {
+    title: "Privacy Policy",
+    version: "2025-01-15",
+    url: "https://example.com/legal/privacy",
+  },
+} as const;
+
+export type LegalDocumentId = keyof typeof LEGAL_DOCUMENTS;
@@ -0,0 +1,179 @@
+/**
+ * OAuth provider registry
+ *
+ * One entry per social / enterprise sign-in provider. Screens render the
+ * enabled entries, `useOAuthSignIn` runs the PKCE browser flow from the
+ * entry's endpoints and scopes, and `authApi.oauthLogin` posts the result to
+ * the entry's backend exchange route.
+ *
+ * Adding a provider means adding an entry here and enabling it through
+ * EXPO_PUBLIC_OAUTH_PROVIDERS (comma separated ids, defaults to "google").
+ */
+
+import { Ionicons } from "@expo/vector-icons";
+import * as Application from "expo-application";
+import { DiscoveryDocument } from "expo-auth-session";
+import { Platform } from "react-native";
+
+export type OAuthProviderId = "google" | "apple" | "github" | "microsoft";
+
+/**
+ * What the app hands to the backend exchange route
+ * - idToken: public clients; the app redeems the code and sends the ID token
+ * - code: providers that need a client secret to redeem the code; the app
+ *   sends the code and PKCE verifier and the backend redeems them
+ */
+export type OAuthCredentialType = "idToken" | "code";
+
+export interface OAuthProviderBranding {
+  icon: keyof typeof Ionicons.glyphMap;
+  backgroundColor: string;
+  textColor: string;
+  borderColor: string;
+}
+
+export interface OAuthProvider {
+  id: OAuthProviderId;
+  name: string;
+  discovery: DiscoveryDocument;
+  clientId: string;
+  scopes: string[];
+  credentialType: OAuthCredentialType;
+  exchangeRoute: string;
+  branding: OAuthProviderBranding;
+  redirectUri?: string; // Defaults to the app's own oauth/callback route
+}
+
+/**
+ * Setting EXPO_PUBLIC_OAUTH_MOCK_URL points every provider at the local mock
+ * server (`npm run mock:oauth`) for offline testing
+ */
+const mockOAuthUrl = process.env.EXPO_PUBLIC_OAUTH_MOCK_URL;
+
+const withMockDiscovery = (
+  id: OAuthProviderId,
+  discovery: DiscoveryDocument,
+): DiscoveryDocument =>
+  mockOAuthUrl
+    ? {
+        authorizationEndpoint: `${mockOAuthUrl}/${id}/authorize`,
+        tokenEndpoint: `${mockOAuthUrl}/${id}/token`,
+      }
+    : discovery;
+
+/**
+ * Google's iOS and Android clients only accept a redirect to the app's
+ * own id (bundle identifier / package name) as the scheme, which Expo
+ * registers for native builds; web clients use the default https route.
+ * The native clients are public, so the app redeems the code itself; the
+ * web client has a secret, so the backend redeems it.
+ */
+const googleRedirectUri =
+  Platform.OS === "web" || !Application.applicationId
+    ? undefined
+    : `${Application.applicationId}:/oauthredirect`;
+
+const microsoftTenant =
+  process.env.EXPO_PUBLIC_MICROSOFT_TENANT_ID || "organizations";
+
+export const OAUTH_PROVIDERS: Record<OAuthProviderId, OAuthProvider> = {
+  google: {
+    id: "google",
+    name: "Google",
+    discovery: withMockDiscovery("google", {
+      authorizationEndpoint: "https://accounts.google.com/o/oauth2/v2/auth",
+      tokenEndpoint: "https://oauth2.googleapis.com/token",
+      revocationEndpoint: "https://oauth2.googleapis.com/revoke",
+    }),
+    clientId:
+      Platform.select({
+        ios: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID,
+        android: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID,
+        default: process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID,
+      }) ?? "",
+    scopes: ["openid", "email", "profile"],
+    credentialType: Platform.OS === "web" ? "code" : "idToken",
+    exchangeRoute: "/auth/google",
+    redirectUri: mockOAuthUrl ? undefined : googleRedirectUri,
+    branding: {
+      icon: "logo-google",
+      backgroundColor: "#fff",
+      textColor: "#3c4043",
+      borderColor: "#dadce0",
+    },
+  },
+
+  apple: {
+    id: "apple",
+    name: "Apple",
+    discovery: withMockDiscovery("apple", {
+      authorizationEndpoint: "https://appleid.apple.com/auth/authorize",
+      tokenEndpoint: "https://appleid.apple.com/auth/token",
+    }),
+    clientId: process.env.EXPO_PUBLIC_APPLE_SERVICE_ID ?? "",
+    // Requesting name/email forces form_post to a server URL, which an app
+    // redirect can't receive; the backend reads the email from the ID token
+    scopes: [],
+    credentialType: "code",
+    exchangeRoute: "/auth/apple",
+    branding: {
+      icon: "logo-apple",
+      backgroundColor: "#000",
+      textColor: "#fff",
+      borderColor: "#000",
+    },
+  },
+
+  github: {
+    id: "github",
+    name: "GitHub",
+    discovery: withMockDiscovery("github", {
+      authorizationEndpoint: "https://github.com/login/oauth/authorize",
+      tokenEndpoint: "https://github.com/login/oauth/access_token",
+    }),
+    clientId: process.env.EXPO_PUBLIC_GITHUB_CLIENT_ID ?? "",
+    scopes: ["read:user", "user:email"],
+    credentialType: "code",
+    exchangeRoute: "/auth/github",
+    branding: {
+      icon: "logo-github",
+      backgroundColor: "#24292f",
+      textColor: "#fff",
+      borderColor: "#24292f",
+    },
+  },
+
+  microsoft: {
+    id: "microsoft",
+    name: "Microsoft",
+    discovery: withMockDiscovery("microsoft", {
+      authorizationEndpoint: `https://login.microsoftonline.com/${microsoftTenant}/oauth2/v2.0/authorize`,
+      tokenEndpoint: `https://login.microsoftonline.com/${microsoftTenant}/oauth2/v2.0/token`,
+    }),
+    clientId: process.env.EXPO_PUBLIC_MICROSOFT_CLIENT_ID ?? "",
+    scopes: ["openid", "email", "profile"],
+    credentialType: "idToken",
+    exchangeRoute: "/auth/microsoft",
+    branding: {
+      icon: "logo-microsoft",
+      backgroundColor: "#fff",
+      textColor: "#5e5e5e",
+      borderColor: "#8c8c8c",
+    },
+  },
+};
+
+/**
+ * Providers enabled for this build, in display order.
+ * Unknown ids are skipped.
+ */
+export const getEnabledOAuthProviders = (): OAuthProvider[] => {
+  const enabledIds: string =
+    process.env.EXPO_PUBLIC_OAUTH_PROVIDERS ?? "google";
+
+  return enabledIds
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id): id is OAuthProviderId => id in OAUTH_PROVIDERS)
+    .map((id) => OAUTH_PROVIDERS[id]);
+};
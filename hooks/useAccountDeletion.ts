@@ -0,0 +1,101 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authApi, ReauthCredentials } from "../api/authApi";
+import { revokeSessionOnServer } from "../api/logoutQueue";
+import { discardAllQueryClients } from "../api/queryClient";
+import { usersApi } from "../api/usersApi";
+import { useAuthStore } from "../store/authStore";
+import { logger } from "../utils/logger";
+
+export const deletionKeys = {
+  status: ["users", "me", "deletion"] as const,
+};
+
+/**
+ * Remove everything the app keeps about its accounts: every session,
+ * the persisted `auth-storage` entry and every query cache. Wiping the
+ * persisted entry signs out the other accounts on this device too, so
+ * their sessions are revoked on the server first (or queued for retry).
+ */
+const wipeLocalAccountData = async (scheduledFor: string) => {
+  const { sessions, clearAllAccounts, setError } = useAuthStore.getState();
+
+  await Promise.all(
+    Object.values(sessions).map((session) =>
+      revokeSessionOnServer(session).catch(() => undefined),
+    ),
+  );
+
+  clearAllAccounts();
+  discardAllQueryClients();
+  setError(
+    `Your account will be deleted on ${new Date(scheduledFor).toLocaleDateString()}. Sign in before then if you change your mind.`,
+  );
+  useAuthStore.persist.clearStorage();
+
+  logger.info("Account deletion scheduled, local data wiped");
+};
+
+/**
+ * Delete the signed-in account, or cancel a pending deletion
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: Re-authentication and scheduling behind one command
+ * - Command Pattern: Schedule and cancel are mutations
+ *
+ * Deletion is scheduled rather than immediate: the account stays
+ * recoverable for a grace period by signing in and cancelling. Accounts
+ * without a password confirm with a code from `requestReauthCode`.
+ */
+export const useAccountDeletion = () => {
+  const queryClient = useQueryClient();
+
+  const statusQuery = useQuery({
+    queryKey: deletionKeys.status,
+    queryFn: usersApi.getDeletionStatus,
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (credentials: ReauthCredentials) => {
+      const reauthToken = await authApi.reauthenticate(credentials);
+      return usersApi.scheduleDeletion({ reauthToken });
+    },
+    onSuccess: async (status) => {
+      if (status.status === "scheduled") {
+        await wipeLocalAccountData(status.scheduledFor);
+      }
+    },
+    onError: (error) => {
+      logger.info("Account deletion failed: ", error);
+    },
+  });
+
+  const reauthCodeMutation = useMutation({
+    mutationFn: authApi.requestReauthCode,
+    onError: (error) => {
+      logger.info("Sending re-authentication code failed: ", error);
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: usersApi.cancelDeletion,
+    onSuccess: () => {
+      queryClient.setQueryData(deletionKeys.status, { status: "none" });
+    },
+    onError: (error) => {
+      logger.info("Cancelling account deletion failed: ", error);
+    },
+  });
+
+  return {
+    status: statusQuery.data ?? null,
+    statusLoading: statusQuery.isLoading,
+    statusError: statusQuery.error,
+    refetchStatus: statusQuery.refetch,
+    scheduleDeletion: scheduleMutation.mutate,
+    scheduleLoading: scheduleMutation.isPending,
+    requestReauthCode: reauthCodeMutation.mutate,
+    requestReauthCodeLoading: reauthCodeMutation.isPending,
+    cancelDeletion: cancelMutation.mutate,
+    cancelLoading: cancelMutation.isPending,
+  };
+};
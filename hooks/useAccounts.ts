@@ -0,0 +1,93 @@
+import { router } from "expo-router";
+import { useCallback, useMemo } from "react";
+import { revokeSessionOnServer } from "../api/logoutQueue";
+import {
+  AccountSession,
+  authSelectors,
+  useAuthStore,
+} from "../store/authStore";
+import { logger } from "../utils/logger";
+
+export interface AccountListItem extends AccountSession {
+  userId: string;
+}
+
+/**
+ * Signed-in accounts for the account switcher
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: Wraps the store's multi-account actions
+ * - Selector Pattern: Subscribes only to the sessions and active pointer
+ *
+ * Each account keeps its own query cache (see api/queryClient), so
+ * switching is immediate and shows no data from the previous account.
+ */
+export const useAccounts = () => {
+  const sessions = useAuthStore(authSelectors.sessions);
+  const activeUserId = useAuthStore(authSelectors.activeUserId);
+  const switchToAccount = useAuthStore((state) => state.switchAccount);
+  const deactivateAccount = useAuthStore((state) => state.deactivateAccount);
+  const removeFromStore = useAuthStore((state) => state.removeAccount);
+
+  const accounts = useMemo<AccountListItem[]>(
+    () =>
+      Object.entries(sessions)
+        .map(([userId, session]) => ({ userId, ...session }))
+        .sort((a, b) =>
+          (a.user?.email ?? "").localeCompare(b.user?.email ?? ""),
+        ),
+    [sessions],
+  );
+
+  /**
+   * Activate an account; one whose session has lapsed is sent to login
+   * with its email filled in
+   */
+  const switchAccount = useCallback(
+    (userId: string) => {
+      const email = sessions[userId]?.user?.email;
+      if (switchToAccount(userId)) {
+        return true;
+      }
+
+      router.push({
+        pathname: "/auth/login",
+        params: email ? { email } : {},
+      });
+      return false;
+    },
+    [sessions, switchToAccount],
+  );
+
+  /**
+   * Sign one account out, here and on the server
+   */
+  const removeAccount = useCallback(
+    (userId: string) => {
+      const session = sessions[userId];
+      removeFromStore(userId);
+      if (session) {
+        revokeSessionOnServer(session).catch((error) =>
+          logger.warn("Queueing server logout failed", { error }),
+        );
+      }
+    },
+    [sessions, removeFromStore],
+  );
+
+  /**
+   * Sign in to another account, keeping the current ones
+   */
+  const addAccount = useCallback(() => {
+    deactivateAccount();
+    router.push("/auth/login");
+  }, [deactivateAccount]);
+
+  return {
+    accounts,
+    activeUserId,
+    switchAccount,
+    addAccount,
+    removeAccount,
+  };
+};
@@ -1,90 +1,281 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { authApi } from "../api/authApi";
-import { useAuthStore } from "../store/authStore";
+import { useMutation } from "@tanstack/react-query";
+import { router } from "expo-router";
+import { authApi, isEmailNotVerifiedError, LoginResult } from "../api/authApi";
+import { isAccountLockedError } from "../api/errors";
+import { revokeSessionOnServer } from "../api/logoutQueue";
+import { OAUTH_PROVIDERS } from "../constants/OAuthProviders";
+import {
+  authSelectors,
+  findLoginThrottle,
+  useAuthStore,
+} from "../store/authStore";
 import { logger } from "../utils/logger";
+import { loadProfile } from "./useProfile";
+
+/**
+ * Wait applied when a throttled login response doesn't say how long
+ */
+const DEFAULT_LOGIN_RETRY_DELAY_MS = 30_000;
 
 export const useAuth = () => {
-  const queryClient = useQueryClient();
-  const { token, setToken, clearAuth, setError, setLoading } = useAuthStore();
+  const {
+    token,
+    refreshToken,
+    setToken,
+    clearAuth,
+    setError,
+    setLoading,
+    setTwoFactorChallenge,
+    setLoginThrottle,
+    clearLoginThrottle,
+  } = useAuthStore();
   const authError = useAuthStore((state) => state.error);
+  const loginThrottles = useAuthStore(authSelectors.loginThrottles);
+
+  /**
+   * Store the new session, then fetch the full profile for it
+   */
+  const startSession = (token: string, refreshToken: string | null) => {
+    setToken(token, refreshToken); // Also clears previous errors and the challenge
+    loadProfile();
+  };
+
+  /**
+   * Sign in, or hold the challenge and ask for the second factor
+   */
+  const handleLoginResult = (result: LoginResult, email: string | null) => {
+    if (result.type === "session") {
+      startSession(result.token, result.refreshToken);
+      return;
+    }
+
+    setTwoFactorChallenge({
+      challengeToken: result.challengeToken,
+      methods: result.methods,
+      email,
+    });
+    router.push("/auth/two-factor");
+  };
 
   const loginMutation = useMutation({
     mutationFn: authApi.login,
-    onSuccess: (data) => {
-      setToken(data.token);
-      setError(null); // Clear any previous errors on successful login
+    onSuccess: (result, { email }) => {
+      clearLoginThrottle(email);
+      handleLoginResult(result, email);
     },
-    onError: (error: any) => {
+    onError: (error, credentials) => {
       logger.info("Login failed: ", error);
 
-      // Set user-friendly error message based on status code
-      let errorMessage = "Login failed. Please try again.";
-
-      if (error?.status === 401 || error?.response?.status === 401) {
-        errorMessage =
-          "Invalid email or password. Please check your credentials and try again.";
-      } else if (error?.status === 400 || error?.response?.status === 400) {
-        errorMessage = "Please check your email and password format.";
-      } else if (error?.status === 500 || error?.response?.status === 500) {
-        errorMessage = "Server error. Please try again later.";
-      } else if (error?.code === "ERR_NETWORK") {
-        errorMessage =
-          "Network error. Please check your connection and try again.";
+      // Unverified accounts go to the verify screen instead of an error
+      if (isEmailNotVerifiedError(error)) {
+        setError(null);
+        router.push({
+          pathname: "/auth/verify-email",
+          params: { email: credentials.email },
+        });
+        return;
       }
 
-      setError(errorMessage);
+      // On the login form, auth and validation errors mean bad credentials
+      switch (error.kind) {
+        case "rate_limited":
+          // LoginScreen explains the throttle next to its countdown
+          setLoginThrottle(credentials.email, {
+            until:
+              Date.now() + (error.retryAfterMs ?? DEFAULT_LOGIN_RETRY_DELAY_MS),
+            reason: isAccountLockedError(error) ? "locked" : "rate_limited",
+          });
+          setError(null);
+          break;
+        case "auth":
+          setError(
+            "Invalid email or password. Please check your credentials and try again.",
+          );
+          break;
+        case "validation":
+          setError("Please check your email and password format.");
+          break;
+        default:
+          setError(error.message);
+      }
     },
   });
 
   const signupMutation = useMutation({
     mutationFn: authApi.signup,
-    onSuccess: (data) => {
-      // Handle navigation
+    onSuccess: (result, { email }) => {
+      switch (result.type) {
+        case "session":
+          // Signed in straight away
+          startSession(result.token, result.refreshToken);
+          break;
+        case "verification_required":
+          // The email must be confirmed before signing in
+          router.replace({
+            pathname: "/auth/verify-email",
+            params: { email, sent: "1" },
+          });
+          break;
+        case "created":
+          router.replace({ pathname: "/auth/login", params: { email } });
+          break;
+      }
     },
     onError: (error) => {
       logger.info("Signup failed: ", error);
     },
   });
 
-  const logout = () => {
-    clearAuth();
-    queryClient.clear(); // Clear all React Query cache on logout
-  };
+  const requestPasswordResetMutation = useMutation({
+    mutationFn: authApi.requestPasswordReset,
+    onError: (error) => {
+      logger.info("Password reset request failed: ", error);
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: authApi.resetPassword,
+    onError: (error) => {
+      logger.info("Password reset failed: ", error);
+    },
+  });
+
+  const verifyEmailMutation = useMutation({
+    mutationFn: authApi.verifyEmail,
+    onError: (error) => {
+      logger.info("Email verification failed: ", error);
+    },
+  });
+
+  const resendVerificationMutation = useMutation({
+    mutationFn: authApi.resendVerificationEmail,
+    onError: (error) => {
+      logger.info("Resending verification email failed: ", error);
+    },
+  });
 
   /**
-   * Google login handler (Frontend preparation)
-   * This will be integrated with actual Google OAuth when backend is ready
+   * Passkey login handler
+   * Exchanges the assertion from the browser ceremony (usePasskeys)
+   * for a gateway session
    */
-  const googleLoginMutation = useMutation({
-    mutationFn: async (googleToken: string) => {
-      // TODO: Send Google token to backend for verification
-      // For now, this is a placeholder that will throw an error
-      throw new Error("Google login not yet implemented on backend");
+  const passkeyLoginMutation = useMutation({
+    mutationFn: authApi.verifyPasskeyLogin,
+    onSuccess: (result) => handleLoginResult(result, null),
+    onError: (error) => {
+      logger.info("Passkey login failed: ", error);
+      setError(
+        error.kind === "auth" || error.kind === "validation"
+          ? "This passkey wasn't accepted. Try another sign-in method."
+          : error.message,
+      );
     },
-    onSuccess: (data: any) => {
-      // When backend is ready, this will receive JWT token
-      if (data.token) {
-        setToken(data.token);
-      }
+  });
+
+  /**
+   * Passwordless sign-in: email a link, then exchange its one-time code
+   */
+  const requestMagicLinkMutation = useMutation({
+    mutationFn: authApi.requestMagicLink,
+    onError: (error) => {
+      logger.info("Magic link request failed: ", error);
     },
+  });
+
+  const exchangeMagicLinkMutation = useMutation({
+    mutationFn: authApi.exchangeMagicLink,
+    onSuccess: (result) => handleLoginResult(result, null),
     onError: (error) => {
-      logger.info("Google login failed: ", error);
-      setError(error.message || "Google login failed");
+      logger.info("Magic link sign-in failed: ", error);
+    },
+  });
+
+  /**
+   * Second step of a two-factor login
+   * The screen shows the error, since it depends on the code type
+   */
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: authApi.verifyTwoFactor,
+    onSuccess: (data) => {
+      startSession(data.token, data.refreshToken);
+    },
+    onError: (error) => {
+      logger.info("Two-factor verification failed: ", error);
+    },
+  });
+
+  /**
+   * Sign out locally right away, then revoke the session on the server
+   * (retried in the background when offline)
+   */
+  const logout = () => {
+    const session = token ? { token, refreshToken } : null;
+    clearAuth(); // The account's query cache goes with it (api/queryClient)
+    if (session) {
+      revokeSessionOnServer(session).catch((error) =>
+        logger.warn("Queueing server logout failed", { error }),
+      );
+    }
+  };
+
+  /**
+   * OAuth login handler
+   * Exchanges the credential from the provider's PKCE browser flow
+   * (useOAuthSignIn) for a gateway session
+   */
+  const oauthLoginMutation = useMutation({
+    mutationFn: authApi.oauthLogin,
+    onSuccess: (result) => handleLoginResult(result, null),
+    onError: (error, { providerId }) => {
+      logger.info("OAuth login failed: ", { providerId, error });
+      setError(
+        error.kind === "auth" || error.kind === "validation"
+          ? `${OAUTH_PROVIDERS[providerId].name} sign-in failed. Please try again.`
+          : error.message,
+      );
     },
   });
 
   return {
     token,
     login: loginMutation.mutate,
-    signup: signupMutation.mutate,
-    googleLogin: googleLoginMutation.mutate,
+    signup: signupMutation.mutateAsync, // Resolves with the SignupResult, rejects on failure
+    oauthLogin: oauthLoginMutation.mutate,
+    passkeyLogin: passkeyLoginMutation.mutate,
+    verifyTwoFactor: verifyTwoFactorMutation.mutate,
+    requestMagicLink: requestMagicLinkMutation.mutate,
+    exchangeMagicLink: exchangeMagicLinkMutation.mutate,
+    requestPasswordReset: requestPasswordResetMutation.mutate,
+    resetPassword: resetPasswordMutation.mutate,
+    verifyEmail: verifyEmailMutation.mutate,
+    resendVerificationEmail: resendVerificationMutation.mutate,
     logout,
     // Separate states for better UI handling
     loginLoading: loginMutation.isPending,
+    // Persisted, so it outlives an app restart
+    getLoginThrottle: (email: string) =>
+      findLoginThrottle(loginThrottles, email),
     signupLoading: signupMutation.isPending,
-    googleLoginLoading: googleLoginMutation.isPending,
-    loginError: authError || loginMutation.error, // Use auth store error first, then React Query error
+    oauthLoginLoading: oauthLoginMutation.isPending,
+    passkeyLoginLoading: passkeyLoginMutation.isPending,
+    verifyTwoFactorLoading: verifyTwoFactorMutation.isPending,
+    magicLinkRequestLoading: requestMagicLinkMutation.isPending,
+    exchangeMagicLinkLoading: exchangeMagicLinkMutation.isPending,
+    passwordResetRequestLoading: requestPasswordResetMutation.isPending,
+    passwordResetRequestSent: requestPasswordResetMutation.isSuccess,
+    resetPasswordLoading: resetPasswordMutation.isPending,
+    verifyEmailLoading: verifyEmailMutation.isPending,
+    resendVerificationLoading: resendVerificationMutation.isPending,
+    loginError: authError || loginMutation.error?.message, // Use auth store error first, then React Query error
     signupError: signupMutation.error,
-    googleLoginError: googleLoginMutation.error,
+    oauthLoginError: oauthLoginMutation.error,
+    passkeyLoginError: passkeyLoginMutation.error,
+    verifyTwoFactorError: verifyTwoFactorMutation.error,
+    magicLinkRequestError: requestMagicLinkMutation.error,
+    exchangeMagicLinkError: exchangeMagicLinkMutation.error,
+    passwordResetRequestError: requestPasswordResetMutation.error,
+    resetPasswordError: resetPasswordMutation.error,
+    verifyEmailError: verifyEmailMutation.error,
+    resendVerificationError: resendVerificationMutation.error,
   };
 };
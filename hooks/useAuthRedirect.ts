@@ -0,0 +1,129 @@
+import {
+  Href,
+  router,
+  useGlobalSearchParams,
+  usePathname,
+  useSegments,
+} from "expo-router";
+import { useEffect, useRef } from "react";
+import { authSelectors, useAuthStore } from "../store/authStore";
+import { logger } from "../utils/logger";
+
+/**
+ * Auth screens a signed-in user is sent on from; the rest (password
+ * reset, email verification) stay reachable from their email links
+ */
+const SIGN_IN_SCREENS = new Set([
+  "login",
+  "signup",
+  "magic-link",
+  "two-factor",
+]);
+
+const DEFAULT_DESTINATION: Href = "/";
+
+/**
+ * Where to go after signing in, carried between auth screens
+ * (login → two-factor, login → signup) that don't forward the param.
+ * Dropped when the session ends or another account becomes active, so
+ * it never sends one account to a page another was headed for.
+ */
+let pendingReturnTo: Href | null = null;
+
+/**
+ * Only in-app paths are followed, and never back into the auth screens;
+ * anything else (`//evil.example`, full URLs) is ignored. What's left is
+ * an app path, though not one the typed routes can check.
+ */
+const sanitizeReturnTo = (value: unknown): Href | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  if (!value.startsWith("/") || value.startsWith("//")) {
+    return null;
+  }
+
+  return value.startsWith("/auth/") ? null : (value as Href);
+};
+
+/**
+ * Current path including its query string, e.g. `/account?tab=security`
+ */
+const currentHref = (
+  pathname: string,
+  params: Record<string, string | string[]>,
+): string => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach((item) =>
+      query.append(key, item),
+    );
+  });
+
+  const search = query.toString();
+  return search ? `${pathname}?${search}` : pathname;
+};
+
+/**
+ * Central auth redirects for the root layout
+ *
+ * Design Patterns Used:
+ * - Observer Pattern: Re-runs on auth state and route changes
+ * - Guard Pattern: `(protected)` routes need a session, sign-in screens
+ *   don't make sense with one
+ *
+ * Waits for persisted sessions to be restored, so a deep link into a
+ * protected screen isn't bounced to login before the session is known.
+ * Signed-out visits to a protected route go to login with the path in
+ * `returnTo`; once signed in, the user is sent back there.
+ */
+export const useAuthRedirect = () => {
+  const hasHydrated = useAuthStore(authSelectors.hasHydrated);
+  const isAuthenticated = useAuthStore(authSelectors.isAuthenticated);
+  const activeUserId = useAuthStore(authSelectors.activeUserId);
+  const previousUserIdRef = useRef(activeUserId);
+
+  const segments = useSegments();
+  const pathname = usePathname();
+  const params = useGlobalSearchParams<Record<string, string | string[]>>();
+
+  // Signing in (no account → one) keeps the destination; signing out
+  // or switching accounts drops it
+  useEffect(() => {
+    const previousUserId = previousUserIdRef.current;
+    previousUserIdRef.current = activeUserId;
+    if (previousUserId && previousUserId !== activeUserId) {
+      pendingReturnTo = null;
+    }
+  }, [activeUserId]);
+
+  useEffect(() => {
+    if (!hasHydrated) return;
+
+    const [group, section, screen] = segments as string[];
+    const onAuthScreen = group === "(public)" && section === "auth";
+
+    if (onAuthScreen) {
+      const returnTo = sanitizeReturnTo(params.returnTo);
+      if (returnTo) {
+        pendingReturnTo = returnTo;
+      }
+    }
+
+    // Signed out on a protected screen: sign in, then come back
+    if (!isAuthenticated && group === "(protected)") {
+      const returnTo = currentHref(pathname, params);
+      logger.info("Redirecting to login", { returnTo });
+      router.replace({ pathname: "/auth/login", params: { returnTo } });
+      return;
+    }
+
+    // Signed in on a sign-in screen: resume where the user was headed
+    if (isAuthenticated && onAuthScreen && SIGN_IN_SCREENS.has(screen)) {
+      const destination: Href = pendingReturnTo ?? DEFAULT_DESTINATION;
+      pendingReturnTo = null;
+      router.replace(destination);
+    }
+  }, [hasHydrated, isAuthenticated, segments, pathname, params]);
+};
@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { Consent } from "../api/authSchemas";
+import { ConsentRecord, usersApi } from "../api/usersApi";
+import { LEGAL_DOCUMENTS } from "../constants/Legal";
+import { authSelectors, useAuthStore } from "../store/authStore";
+import { logger } from "../utils/logger";
+
+export const consentKeys = {
+  me: ["users", "me", "consent"] as const,
+};
+
+/**
+ * Consent to the current legal documents, timestamped now
+ */
+export const currentConsent = (): Consent => ({
+  termsVersion: LEGAL_DOCUMENTS.terms.version,
+  privacyVersion: LEGAL_DOCUMENTS.privacy.version,
+  acceptedAt: new Date().toISOString(),
+});
+
+const isCurrent = (consent: ConsentRecord | null): boolean =>
+  consent?.termsVersion === LEGAL_DOCUMENTS.terms.version &&
+  consent.privacyVersion === LEGAL_DOCUMENTS.privacy.version;
+
+/**
+ * The signed-in user's consent to the legal documents
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: Consent status and acceptance in one hook
+ * - Command Pattern: Accepting is a mutation
+ *
+ * `needsConsent` is only true once the status has loaded and shows an
+ * older (or no) acceptance. If the status can't be loaded the user is
+ * let through; the check runs again on the next launch.
+ */
+export const useConsent = () => {
+  const queryClient = useQueryClient();
+  const isAuthenticated = useAuthStore(authSelectors.isAuthenticated);
+
+  const statusQuery = useQuery({
+    queryKey: consentKeys.me,
+    queryFn: usersApi.getConsent,
+    enabled: isAuthenticated,
+    // A failed check lets the user through, so don't hold them at a
+    // spinner through the default three retries
+    retry: 1,
+  });
+
+  useEffect(() => {
+    if (statusQuery.isError) {
+      logger.warn("Consent status unavailable, letting the user through", {
+        message: statusQuery.error.message,
+      });
+    }
+  }, [statusQuery.isError, statusQuery.error]);
+
+  const acceptMutation = useMutation({
+    mutationFn: () => usersApi.acceptConsent(currentConsent()),
+    onSuccess: (consent) => {
+      queryClient.setQueryData(consentKeys.me, consent);
+    },
+    onError: (error) => {
+      logger.info("Recording consent failed: ", error);
+    },
+  });
+
+  return {
+    consent: statusQuery.data ?? null,
+    needsConsent: statusQuery.isSuccess && !isCurrent(statusQuery.data),
+    statusLoading: statusQuery.isLoading,
+    acceptConsent: acceptMutation.mutate,
+    acceptLoading: acceptMutation.isPending,
+    acceptError: acceptMutation.error,
+  };
+};
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react";
+
+const secondsUntil = (endsAt: number | null): number =>
+  endsAt ? Math.max(0, Math.ceil((endsAt - Date.now()) / 1000)) : 0;
+
+/**
+ * Live count of the seconds left until a point in time
+ * Works from a timestamp rather than a duration, so a deadline that was
+ * persisted (e.g. a login lockout) keeps counting after a restart.
+ *
+ * @param endsAt Epoch milliseconds, or null when nothing is counting down
+ */
+export const useCountdown = (endsAt: number | null): number => {
+  const [remaining, setRemaining] = useState(() => secondsUntil(endsAt));
+
+  useEffect(() => {
+    setRemaining(secondsUntil(endsAt));
+    if (secondsUntil(endsAt) === 0) return;
+
+    const interval = setInterval(() => {
+      const secondsLeft = secondsUntil(endsAt);
+      setRemaining(secondsLeft);
+      if (secondsLeft === 0) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  return remaining;
+};
+
+/**
+ * Countdown for actions that may only be repeated after a delay
+ * (resend buttons and similar)
+ *
+ * @param seconds Length of the cooldown started by `start`
+ * @param startImmediately Start cooling down on mount, e.g. when an email
+ * was sent just before the screen opened
+ */
+export const useCooldown = (seconds: number, startImmediately = false) => {
+  const [endsAt, setEndsAt] = useState<number | null>(() =>
+    startImmediately ? Date.now() + seconds * 1000 : null,
+  );
+  const remaining = useCountdown(endsAt);
+
+  const start = useCallback(() => {
+    setEndsAt(Date.now() + seconds * 1000);
+  }, [seconds]);
+
+  return {
+    remaining,
+    isCoolingDown: remaining > 0,
+    start,
+  };
+};
@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { DataExport, usersApi } from "../api/usersApi";
+import { saveRemoteFile } from "../utils/fileDownload";
+import { logger } from "../utils/logger";
+
+const POLL_INTERVAL_MS = 5_000;
+
+export const dataExportKeys = {
+  detail: (exportId: string) => ["users", "me", "exports", exportId] as const,
+};
+
+const isInProgress = (job: DataExport | undefined) =>
+  job?.status === "pending" || job?.status === "processing";
+
+/**
+ * Request an archive of the user's data and save it once it's built
+ *
+ * Design Patterns Used:
+ * - Command Pattern: Requesting and saving the export
+ * - Observer Pattern: The job is polled until it's ready or failed
+ */
+export const useDataExport = () => {
+  const queryClient = useQueryClient();
+  const [exportId, setExportId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const requestMutation = useMutation({
+    mutationFn: usersApi.requestDataExport,
+    onSuccess: (job) => {
+      queryClient.setQueryData(dataExportKeys.detail(job.id), job);
+      setExportId(job.id);
+    },
+    onError: (error) => {
+      logger.info("Data export request failed: ", error);
+    },
+  });
+
+  const jobQuery = useQuery({
+    queryKey: dataExportKeys.detail(exportId ?? ""),
+    queryFn: () => usersApi.getDataExport(exportId as string),
+    enabled: !!exportId,
+    refetchInterval: (query) =>
+      isInProgress(query.state.data) ? POLL_INTERVAL_MS : false,
+  });
+
+  const job = jobQuery.data ?? null;
+
+  /**
+   * Save the finished archive; resolves to an error message on failure
+   */
+  const saveExport = async (): Promise<string | null> => {
+    if (!job?.downloadUrl) {
+      return "The export isn't ready yet.";
+    }
+
+    setIsSaving(true);
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      await saveRemoteFile(job.downloadUrl, `my-data-${date}.zip`);
+      return null;
+    } catch (error) {
+      logger.warn("Saving data export failed", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return error instanceof Error
+        ? error.message
+        : "Couldn't save the file. Please try again.";
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    requestExport: requestMutation.mutate,
+    requestLoading: requestMutation.isPending,
+    requestError: requestMutation.error,
+    job,
+    isPreparing: isInProgress(job ?? undefined),
+    pollError: jobQuery.error,
+    saveExport,
+    isSaving,
+  };
+};
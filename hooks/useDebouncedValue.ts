@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+/**
+ * The value, once it has stopped changing for `delayMs`
+ * Use it to hold back requests until the user pauses typing.
+ */
+export const useDebouncedValue = <T>(value: T, delayMs: number): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timeout);
+  }, [value, delayMs]);
+
+  return debounced;
+};
@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { authApi } from "../api/authApi";
+import { emailSchema } from "../api/authSchemas";
+import { useDebouncedValue } from "./useDebouncedValue";
+
+const DEBOUNCE_MS = 500;
+const AVAILABILITY_STALE_MS = 5 * 60 * 1000;
+
+// At most this many checks per window, across every signup screen
+const MAX_CHECKS_PER_WINDOW = 10;
+const CHECK_WINDOW_MS = 60 * 1000;
+
+/**
+ * Live signup email check
+ * - idle: nothing to show (empty, invalid or still being typed)
+ * - unknown: the check failed or was skipped by the rate limit; the
+ *   signup request itself still catches a taken email
+ */
+export type EmailAvailability =
+  | "idle"
+  | "checking"
+  | "available"
+  | "taken"
+  | "unknown";
+
+export const emailAvailabilityKeys = {
+  check: (email: string) => ["auth", "email-availability", email] as const,
+};
+
+/**
+ * Sliding-window limit on availability checks
+ * Keeps a user (or a script driving the screen) from enumerating
+ * accounts through the signup form faster than the gateway allows
+ */
+let recentChecks: number[] = [];
+
+const tryStartCheck = (): boolean => {
+  const now = Date.now();
+  recentChecks = recentChecks.filter((at) => now - at < CHECK_WINDOW_MS);
+  if (recentChecks.length >= MAX_CHECKS_PER_WINDOW) {
+    return false;
+  }
+  recentChecks.push(now);
+  return true;
+};
+
+/**
+ * Whether `email` is free to sign up with, checked once typing pauses
+ *
+ * Design Patterns Used:
+ * - Observer Pattern: Re-checks as the debounced email changes
+ * - Proxy Pattern: Rate-limits calls to authApi.checkEmail
+ *
+ * Each email has its own query, so a slow answer for an earlier email
+ * can never be shown for the current one, and the request for an email
+ * the user has typed past is aborted.
+ */
+export const useEmailAvailability = (email: string): EmailAvailability => {
+  const normalized = email.trim().toLowerCase();
+  const debounced = useDebouncedValue(normalized, DEBOUNCE_MS);
+  const isCheckable = emailSchema.safeParse(debounced).success;
+
+  const query = useQuery({
+    queryKey: emailAvailabilityKeys.check(debounced),
+    // null when the client-side limit skipped the check
+    queryFn: ({ signal }) =>
+      tryStartCheck() ? authApi.checkEmail({ email: debounced }, signal) : null,
+    enabled: isCheckable,
+    staleTime: (query) =>
+      query.state.data === null ? 0 : AVAILABILITY_STALE_MS,
+    retry: false,
+  });
+
+  if (!isCheckable || normalized !== debounced) {
+    return "idle";
+  }
+  if (query.isPending) {
+    return "checking";
+  }
+  if (query.isError || query.data === null) {
+    return "unknown";
+  }
+  return query.data ? "available" : "taken";
+};
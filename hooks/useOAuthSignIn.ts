@@ -0,0 +1,139 @@
+import {
+  exchangeCodeAsync,
+  makeRedirectUri,
+  ResponseType,
+  useAuthRequest,
+} from "expo-auth-session";
+import { useCallback, useState } from "react";
+import { OAuthCredential } from "../api/authApi";
+import { OAuthProvider } from "../constants/OAuthProviders";
+import { logger } from "../utils/logger";
+
+/**
+ * Outcome of the browser part of an OAuth sign-in
+ * - success: a credential for the provider's backend exchange route
+ * - cancelled: the user closed the browser or denied access
+ * - error: anything else, with a message suitable for FormError
+ */
+export type OAuthSignInResult =
+  | { type: "success"; credential: OAuthCredential }
+  | { type: "cancelled" }
+  | { type: "error"; message: string };
+
+/**
+ * OAuth sign-in using the Authorization Code flow with PKCE
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: Hides auth-session request, prompt and code exchange
+ * - Adapter Pattern: Maps auth-session results onto OAuthSignInResult
+ *
+ * Providers with an `idToken` credential have the code redeemed here and
+ * only the ID token is returned; `code` providers get the code and PKCE
+ * verifier back for the backend to redeem.
+ */
+export const useOAuthSignIn = (provider: OAuthProvider) => {
+  const [isPrompting, setIsPrompting] = useState(false);
+  const redirectUri =
+    provider.redirectUri ??
+    makeRedirectUri({
+      scheme: "frontend",
+      path: "oauth/callback",
+    });
+
+  const [request, , promptAsync] = useAuthRequest(
+    {
+      clientId: provider.clientId,
+      redirectUri,
+      responseType: ResponseType.Code,
+      scopes: provider.scopes,
+      usePKCE: true,
+    },
+    provider.discovery,
+  );
+
+  const promptSignIn = useCallback(async (): Promise<OAuthSignInResult> => {
+    const failure: OAuthSignInResult = {
+      type: "error",
+      message: `${provider.name} sign-in failed. Please try again.`,
+    };
+
+    if (!request) {
+      return {
+        type: "error",
+        message: `${provider.name} sign-in is not ready yet.`,
+      };
+    }
+
+    setIsPrompting(true);
+    try {
+      const result = await promptAsync();
+
+      if (result.type === "cancel" || result.type === "dismiss") {
+        return { type: "cancelled" };
+      }
+
+      if (result.type === "error") {
+        // access_denied is the user pressing "Cancel" on the provider's page
+        if (result.error?.code === "access_denied") {
+          return { type: "cancelled" };
+        }
+        return result.error?.description
+          ? { type: "error", message: result.error.description }
+          : failure;
+      }
+
+      if (result.type !== "success") {
+        // "locked": another sign-in window is already open
+        return {
+          type: "error",
+          message: "Another sign-in is already in progress.",
+        };
+      }
+
+      const codeVerifier = request.codeVerifier ?? "";
+
+      if (provider.credentialType === "code") {
+        return {
+          type: "success",
+          credential: { code: result.params.code, codeVerifier, redirectUri },
+        };
+      }
+
+      const tokenResponse = await exchangeCodeAsync(
+        {
+          clientId: provider.clientId,
+          code: result.params.code,
+          redirectUri,
+          extraParams: { code_verifier: codeVerifier },
+        },
+        provider.discovery,
+      );
+
+      if (!tokenResponse.idToken) {
+        return {
+          type: "error",
+          message: `${provider.name} did not return an identity token.`,
+        };
+      }
+
+      return {
+        type: "success",
+        credential: { idToken: tokenResponse.idToken },
+      };
+    } catch (error) {
+      logger.error("OAuth sign-in failed", {
+        provider: provider.id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return failure;
+    } finally {
+      setIsPrompting(false);
+    }
+  }, [provider, request, promptAsync, redirectUri]);
+
+  return {
+    promptSignIn,
+    isReady: !!request,
+    isPrompting,
+  };
+};
@@ -0,0 +1,92 @@
+import { useCallback, useState } from "react";
+import { authApi } from "../api/authApi";
+import { toApiError } from "../api/errors";
+import {
+  createPasskeyCredential,
+  getPasskeyCredential,
+  isPasskeySupported,
+} from "../utils/passkeys";
+import {
+  PasskeyAssertionCredential,
+  PasskeyCeremonyResult,
+} from "../utils/webauthn";
+
+/**
+ * Outcome of registering a passkey
+ */
+export type PasskeyRegistrationResult =
+  | { type: "success" }
+  | { type: "cancelled" }
+  | { type: "error"; message: string };
+
+/**
+ * Browser part of a passkey sign-in
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: Fetches the challenge and runs the browser ceremony
+ * - Adapter Pattern: API failures become ceremony results
+ *
+ * Like useOAuthSignIn, this only produces a credential; useAuth's
+ * `passkeyLogin` exchanges it for a session.
+ */
+export const usePasskeySignIn = () => {
+  const [isPrompting, setIsPrompting] = useState(false);
+
+  const promptPasskey = useCallback(
+    async (
+      email?: string,
+    ): Promise<PasskeyCeremonyResult<PasskeyAssertionCredential>> => {
+      setIsPrompting(true);
+      try {
+        const options = await authApi.getPasskeyLoginOptions(
+          email ? { email } : {},
+        );
+        return await getPasskeyCredential(options);
+      } catch (error) {
+        return { type: "error", message: toApiError(error).message };
+      } finally {
+        setIsPrompting(false);
+      }
+    },
+    [],
+  );
+
+  return {
+    promptPasskey,
+    isSupported: isPasskeySupported(),
+    isPrompting,
+  };
+};
+
+/**
+ * Add a passkey to the signed-in account
+ * Template Method Pattern: options → browser ceremony → verify
+ */
+export const usePasskeyRegistration = () => {
+  const [isRegistering, setIsRegistering] = useState(false);
+
+  const registerPasskey =
+    useCallback(async (): Promise<PasskeyRegistrationResult> => {
+      setIsRegistering(true);
+      try {
+        const options = await authApi.getPasskeyRegistrationOptions();
+        const result = await createPasskeyCredential(options);
+        if (result.type !== "success") {
+          return result;
+        }
+
+        await authApi.verifyPasskeyRegistration(result.credential);
+        return { type: "success" };
+      } catch (error) {
+        return { type: "error", message: toApiError(error).message };
+      } finally {
+        setIsRegistering(false);
+      }
+    }, []);
+
+  return {
+    registerPasskey,
+    isSupported: isPasskeySupported(),
+    isRegistering,
+  };
+};
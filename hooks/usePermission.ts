@@ -0,0 +1,19 @@
+import { authSelectors, useAuthStore } from "../store/authStore";
+import { AccessRequirements, hasAccess } from "../utils/permissions";
+
+/**
+ * Whether the signed-in user meets the given role/permission requirements
+ * Observer Pattern: Re-evaluates when the active user changes
+ *
+ * Always false while signed out. For hiding UI only; the gateway is
+ * what actually enforces access.
+ */
+export const usePermission = ({
+  roles,
+  permissions,
+}: AccessRequirements): boolean => {
+  const isAuthenticated = useAuthStore(authSelectors.isAuthenticated);
+  const user = useAuthStore(authSelectors.user);
+
+  return isAuthenticated && hasAccess(user, { roles, permissions });
+};
@@ -0,0 +1,117 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { getQueryClient } from "../api/queryClient";
+import { usersApi } from "../api/usersApi";
+import { authSelectors, useAuthStore, User } from "../store/authStore";
+import { AvatarFile } from "../utils/avatarPicker";
+import { logger } from "../utils/logger";
+
+/**
+ * Query keys for the signed-in user's profile
+ * Each account has its own query client, so the key needs no user id
+ */
+export const profileKeys = {
+  me: ["users", "me"] as const,
+};
+
+/**
+ * Fetch the active account's profile into its cache and the auth store.
+ * Called right after sign-in, since tokens may not carry the name or
+ * avatar. Failures are only logged: the token's claims still identify
+ * the user.
+ */
+export const loadProfile = async () => {
+  const userId = useAuthStore.getState().activeUserId;
+  if (!userId) {
+    return;
+  }
+
+  try {
+    const user = await getQueryClient(userId).fetchQuery({
+      queryKey: profileKeys.me,
+      queryFn: usersApi.getMe,
+    });
+    useAuthStore.getState().setUser(user);
+  } catch (error) {
+    logger.warn("Failed to load profile after sign-in", { userId });
+  }
+};
+
+/**
+ * The signed-in user's profile
+ * Observer Pattern: every fetch is mirrored into the auth store, so
+ * `authSelectors.user` stays current
+ */
+export const useMe = () => {
+  const isAuthenticated = useAuthStore(authSelectors.isAuthenticated);
+  const setUser = useAuthStore((state) => state.setUser);
+
+  const query = useQuery({
+    queryKey: profileKeys.me,
+    queryFn: usersApi.getMe,
+    enabled: isAuthenticated,
+  });
+
+  useEffect(() => {
+    if (query.data) {
+      setUser(query.data);
+    }
+  }, [query.data, setUser]);
+
+  return query;
+};
+
+/**
+ * Store an updated profile in the cache and the auth store
+ */
+const useProfileUpdated = () => {
+  const queryClient = useQueryClient();
+  const setUser = useAuthStore((state) => state.setUser);
+
+  return (user: User) => {
+    queryClient.setQueryData(profileKeys.me, user);
+    setUser(user);
+  };
+};
+
+/**
+ * Edit the signed-in user's profile
+ * Command Pattern: Encapsulates the update operation
+ */
+export const useUpdateMe = () => {
+  const onUpdated = useProfileUpdated();
+
+  return useMutation({
+    mutationFn: usersApi.updateMe,
+    onSuccess: onUpdated,
+    onError: (error) => {
+      logger.info("Profile update failed: ", error);
+    },
+  });
+};
+
+/**
+ * Upload a new avatar, reporting progress from 0 to 1
+ */
+export const useAvatarUpload = () => {
+  const onUpdated = useProfileUpdated();
+  const [progress, setProgress] = useState(0);
+
+  const mutation = useMutation({
+    mutationFn: (file: AvatarFile) => {
+      setProgress(0);
+      return usersApi.uploadAvatar(file, setProgress);
+    },
+    onSuccess: onUpdated,
+    onError: (error) => {
+      logger.info("Avatar upload failed: ", error);
+    },
+  });
+
+  return {
+    uploadAvatar: mutation.mutate,
+    progress,
+    isUploading: mutation.isPending,
+    error: mutation.error,
+  };
+};
@@ -0,0 +1,53 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { sessionsApi } from "../api/sessionsApi";
+import { logger } from "../utils/logger";
+
+export const sessionKeys = {
+  all: ["sessions"] as const,
+};
+
+/**
+ * Devices signed in to the account, with revocation
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: The session list and both revoke commands in one hook
+ * - Observer Pattern: Revoking refetches the list
+ */
+export const useSessions = () => {
+  const queryClient = useQueryClient();
+
+  const sessionsQuery = useQuery({
+    queryKey: sessionKeys.all,
+    queryFn: sessionsApi.list,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: sessionKeys.all });
+
+  const revokeMutation = useMutation({
+    mutationFn: sessionsApi.revoke,
+    onSuccess: invalidate,
+    onError: (error) => {
+      logger.info("Session revocation failed: ", error);
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: sessionsApi.revokeOthers,
+    onSuccess: invalidate,
+    onError: (error) => {
+      logger.info("Revoking other sessions failed: ", error);
+    },
+  });
+
+  return {
+    sessions: sessionsQuery.data ?? [],
+    isLoading: sessionsQuery.isLoading,
+    error: sessionsQuery.error,
+    refetch: sessionsQuery.refetch,
+    revoke: revokeMutation.mutate,
+    revokingId: revokeMutation.isPending ? revokeMutation.variables : null,
+    revokeOthers: revokeOthersMutation.mutate,
+    revokeOthersLoading: revokeOthersMutation.isPending,
+  };
+};
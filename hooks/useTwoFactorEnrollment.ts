@@ -0,0 +1,44 @@
+import { useMutation } from "@tanstack/react-query";
+import { authApi } from "../api/authApi";
+import { logger } from "../utils/logger";
+
+/**
+ * Two-factor enrollment for the signed-in user
+ *
+ * Design Patterns Used:
+ * - Facade Pattern: Groups the setup and confirm steps behind one hook
+ * - Command Pattern: Each step is a mutation
+ *
+ * `startSetup` issues a new TOTP secret (shown as an otpauth QR code);
+ * `confirm` enables 2FA with a code from the authenticator app and
+ * resolves with the backup codes.
+ */
+export const useTwoFactorEnrollment = () => {
+  const setupMutation = useMutation({
+    mutationFn: authApi.setupTwoFactor,
+    onError: (error) => {
+      logger.info("Two-factor setup failed: ", error);
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: authApi.enableTwoFactor,
+    onSuccess: () => {
+      logger.info("Two-factor authentication enabled");
+    },
+    onError: (error) => {
+      logger.info("Two-factor confirmation failed: ", error);
+    },
+  });
+
+  return {
+    startSetup: setupMutation.mutate,
+    confirm: confirmMutation.mutate,
+    setup: setupMutation.data ?? null,
+    backupCodes: confirmMutation.data ?? null,
+    setupLoading: setupMutation.isPending,
+    confirmLoading: confirmMutation.isPending,
+    setupError: setupMutation.error,
+    confirmError: confirmMutation.error,
+  };
+};
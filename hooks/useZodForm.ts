@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { z } from "zod";
+import { logger } from "../utils/logger";
+
+type FormValues = Record<string, unknown>;
+
+export type FormErrors<TValues extends FormValues> = Partial<
+  Record<keyof TValues, string>
+>;
+
+/**
+ * Extra check for one field that needs the server (e.g. "is this email
+ * taken?"). Resolves to an error message, or undefined when the value is
+ * fine. Runs on blur and on submit, after the schema accepts the field.
+ * A validator that throws counts as "no error": the server still checks
+ * on submit.
+ */
+export type AsyncValidator<
+  TValues extends FormValues,
+  K extends keyof TValues,
+> = (value: TValues[K], values: TValues) => Promise<string | undefined>;
+
+export interface UseZodFormOptions<
+  TSchema extends z.ZodType<unknown, FormValues>,
+> {
+  schema: TSchema;
+  initialValues: z.input<TSchema>;
+  asyncValidators?: {
+    [K in keyof z.input<TSchema>]?: AsyncValidator<z.input<TSchema>, K>;
+  };
+}
+
+/**
+ * First schema message per field; issues without a field path are
+ * reported under `form`
+ */
+const issuesToErrors = <TValues extends FormValues>(
+  issues: z.core.$ZodIssue[],
+): { fieldErrors: FormErrors<TValues>; formError: string | null } => {
+  const fieldErrors: FormErrors<TValues> = {};
+  let formError: string | null = null;
+
+  issues.forEach((issue) => {
+    const field = issue.path[0] as keyof TValues | undefined;
+    if (field === undefined) {
+      formError = formError ?? issue.message;
+    } else if (!fieldErrors[field]) {
+      fieldErrors[field] = issue.message;
+    }
+  });
+
+  return { fieldErrors, formError };
+};
+
+/**
+ * Form state driven by a zod schema
+ *
+ * Design Patterns Used:
+ * - Strategy Pattern: The schema is the validation strategy, shared
+ *   with the API payloads (api/authSchemas)
+ * - State Pattern: Values, touched/dirty fields, errors and submit state
+ * - Adapter Pattern: `getFieldProps` plugs straight into FormInput
+ *
+ * Errors show once a field has been blurred or a submit was attempted,
+ * and update as the user types. Errors set from outside (`setFieldError`,
+ * typically from an API response) and async validator results are
+ * cleared when their field changes.
+ */
+export const useZodForm = <TSchema extends z.ZodType<unknown, FormValues>>({
+  schema,
+  initialValues,
+  asyncValidators,
+}: UseZodFormOptions<TSchema>) => {
+  type Values = z.input<TSchema>;
+  type Field = keyof Values & string;
+
+  const initialValuesRef = useRef(initialValues);
+  const [values, setValues] = useState<Values>(initialValues);
+  const [touched, setTouched] = useState<Partial<Record<Field, boolean>>>({});
+  const [extraErrors, setExtraErrors] = useState<FormErrors<Values>>({});
+  const [submitAttempted, setSubmitAttempted] = useState(false);
+  const [validatingFields, setValidatingFields] = useState<Field[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Latest values and per-field run counters, so a slow validator
+  // result for a value the user has since changed is dropped
+  const latestValuesRef = useRef(values);
+  const validationRunsRef = useRef<Partial<Record<Field, number>>>({});
+
+  useEffect(() => {
+    latestValuesRef.current = values;
+  }, [values]);
+
+  // Schema errors for the current values, recomputed as they change
+  const schemaResult = useMemo(() => {
+    const result = schema.safeParse(values);
+    return result.success
+      ? { fieldErrors: {} as FormErrors<Values>, formError: null }
+      : issuesToErrors<Values>(result.error.issues);
+  }, [schema, values]);
+
+  const errors = useMemo(() => {
+    const visible: FormErrors<Values> = {};
+    (Object.keys(values) as Field[]).forEach((field) => {
+      const message =
+        extraErrors[field] ??
+        (touched[field] || submitAttempted
+          ? schemaResult.fieldErrors[field]
+          : undefined);
+      if (message) {
+        visible[field] = message;
+      }
+    });
+    return visible;
+  }, [values, extraErrors, touched, submitAttempted, schemaResult]);
+
+  const dirty = useMemo(() => {
+    const changed: Partial<Record<Field, boolean>> = {};
+    (Object.keys(values) as Field[]).forEach((field) => {
+      changed[field] = values[field] !== initialValuesRef.current[field];
+    });
+    return changed;
+  }, [values]);
+
+  const clearExtraError = (field: Field) =>
+    setExtraErrors((previous) =>
+      previous[field] ? { ...previous, [field]: undefined } : previous,
+    );
+
+  const setValue = useCallback(
+    <K extends Field>(field: K, value: Values[K]) => {
+      setValues((previous) => ({ ...previous, [field]: value }));
+      clearExtraError(field);
+    },
+    [],
+  );
+
+  const setFieldError = useCallback(
+    (field: Field, message: string | undefined) => {
+      setExtraErrors((previous) => ({ ...previous, [field]: message }));
+    },
+    [],
+  );
+
+  /**
+   * Run one field's async validator, if it has one and the schema
+   * accepts the field; resolves to whether the field is valid
+   */
+  const runAsyncValidator = useCallback(
+    async (field: Field, currentValues: Values): Promise<boolean> => {
+      const validator = asyncValidators?.[field];
+      if (!validator || schemaResult.fieldErrors[field]) {
+        return true;
+      }
+
+      const run = (validationRunsRef.current[field] ?? 0) + 1;
+      validationRunsRef.current[field] = run;
+      setValidatingFields((previous) =>
+        previous.includes(field) ? previous : [...previous, field],
+      );
+
+      let message: string | undefined;
+      try {
+        message = await validator(currentValues[field], currentValues);
+      } catch (error) {
+        logger.info("Async validation failed", {
+          field,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        message = undefined;
+      }
+
+      if (validationRunsRef.current[field] === run) {
+        setValidatingFields((previous) => previous.filter((f) => f !== field));
+        if (latestValuesRef.current[field] === currentValues[field]) {
+          setFieldError(field, message);
+        }
+      }
+      return !message;
+    },
+    [asyncValidators, schemaResult, setFieldError],
+  );
+
+  const handleBlur = useCallback(
+    (field: Field) => {
+      setTouched((previous) => ({ ...previous, [field]: true }));
+      runAsyncValidator(field, values);
+    },
+    [runAsyncValidator, values],
+  );
+
+  /**
+   * Props for a text field: `<FormInput {...getFieldProps("email")} />`
+   */
+  const getFieldProps = useCallback(
+    (field: Field) => ({
+      value: String(values[field] ?? ""),
+      onChangeText: (text: string) => setValue(field, text as Values[Field]),
+      onBlur: () => handleBlur(field),
+      error: errors[field],
+    }),
+    [values, errors, setValue, handleBlur],
+  );
+
+  /**
+   * Validate everything (schema, then async validators) and call
+   * `onValid` with the parsed output only when all of it passes
+   */
+  const handleSubmit = useCallback(
+    (onValid: (data: z.output<TSchema>) => void | Promise<void>) =>
+      async () => {
+        setSubmitAttempted(true);
+
+        const result = schema.safeParse(values);
+        if (!result.success) {
+          return;
+        }
+
+        const fields = Object.keys(asyncValidators ?? {}) as Field[];
+        const asyncResults = await Promise.all(
+          fields.map((field) => runAsyncValidator(field, values)),
+        );
+        if (asyncResults.includes(false)) {
+          return;
+        }
+
+        setIsSubmitting(true);
+        try {
+          await onValid(result.data as z.output<TSchema>);
+        } finally {
+          setIsSubmitting(false);
+        }
+      },
+    [schema, values, asyncValidators, runAsyncValidator],
+  );
+
+  /**
+   * Back to the initial (or given) values, with no errors
+   */
+  const reset = useCallback((nextValues?: Values) => {
+    const resetValues = nextValues ?? initialValuesRef.current;
+    initialValuesRef.current = resetValues;
+    setValues(resetValues);
+    setTouched({});
+    setExtraErrors({});
+    setSubmitAttempted(false);
+  }, []);
+
+  return {
+    values,
+    errors,
+    formError: submitAttempted ? schemaResult.formError : null,
+    touched,
+    dirty,
+    isDirty: Object.values(dirty).some(Boolean),
+    isValid:
+      Object.keys(schemaResult.fieldErrors).length === 0 &&
+      !schemaResult.formError,
+    isValidating: validatingFields.length > 0,
+    isSubmitting,
+    setValue,
+    setFieldError,
+    getFieldProps,
+    handleBlur,
+    handleSubmit,
+    reset,
+  };
+};
@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the OAuth provider endpoints, so social sign-in can be
+ * exercised offline.
+ *
+ *   npm run mock:oauth
+ *   EXPO_PUBLIC_OAUTH_MOCK_URL=http://localhost:4010 npx expo start
+ *
+ * Endpoints (`:provider` is e.g. `google`):
+ *   GET  /:provider/authorize  Redirects straight back with a code.
+ *                              Add `mock_outcome=deny` to simulate the user
+ *                              cancelling, `mock_outcome=error` for a failure.
+ *   POST /:provider/token      Exchanges the code, checking the PKCE verifier,
+ *                              and returns an unsigned ID token.
+ */
+
+const crypto = require("crypto");
+const http = require("http");
+
+const PORT = Number(process.env.MOCK_OAUTH_PORT || 4010);
+const CODE_TTL_MS = 60 * 1000;
+
+// code -> { codeChallenge, redirectUri, clientId, provider, issuedAt }
+const pendingCodes = new Map();
+
+const base64Url = (input) =>
+  Buffer.from(input)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const createIdToken = (provider, clientId) => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: "none", typ: "JWT" }));
+  const payload = base64Url(
+    JSON.stringify({
+      iss: `mock-${provider}`,
+      aud: clientId,
+      sub: `mock-${provider}-user`,
+      email: `traveller@${provider}.example`,
+      email_verified: true,
+      name: "Mock Traveller",
+      iat: now,
+      exp: now + 3600,
+    }),
+  );
+  return `${header}.${payload}.`;
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+};
+
+const redirect = (res, redirectUri, params) => {
+  const target = new URL(redirectUri);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) target.searchParams.set(key, value);
+  });
+  res.writeHead(302, { Location: target.toString() });
+  res.end();
+};
+
+const handleAuthorize = (provider, url, res) => {
+  const redirectUri = url.searchParams.get("redirect_uri");
+  const state = url.searchParams.get("state");
+  const outcome = url.searchParams.get("mock_outcome");
+
+  if (!redirectUri) {
+    return sendJson(res, 400, { error: "invalid_request" });
+  }
+  if (outcome === "deny") {
+    return redirect(res, redirectUri, { error: "access_denied", state });
+  }
+  if (outcome === "error") {
+    return redirect(res, redirectUri, {
+      error: "server_error",
+      error_description: "Mock provider failure",
+      state,
+    });
+  }
+
+  const code = crypto.randomBytes(16).toString("hex");
+  pendingCodes.set(code, {
+    provider,
+    redirectUri,
+    clientId: url.searchParams.get("client_id"),
+    codeChallenge: url.searchParams.get("code_challenge"),
+    issuedAt: Date.now(),
+  });
+  redirect(res, redirectUri, { code, state });
+};
+
+const handleToken = (provider, body, res) => {
+  const params = new URLSearchParams(body);
+  const pending = pendingCodes.get(params.get("code"));
+  pendingCodes.delete(params.get("code"));
+
+  if (
+    !pending ||
+    pending.provider !== provider ||
+    Date.now() - pending.issuedAt > CODE_TTL_MS ||
+    pending.redirectUri !== params.get("redirect_uri")
+  ) {
+    return sendJson(res, 400, { error: "invalid_grant" });
+  }
+
+  const verifier = params.get("code_verifier") || "";
+  const challenge = base64Url(
+    crypto.createHash("sha256").update(verifier).digest(),
+  );
+  if (challenge !== pending.codeChallenge) {
+    return sendJson(res, 400, {
+      error: "invalid_grant",
+      error_description: "PKCE verification failed",
+    });
+  }
+
+  sendJson(res, 200, {
+    access_token: crypto.randomBytes(24).toString("hex"),
+    id_token: createIdToken(provider, pending.clientId),
+    token_type: "Bearer",
+    expires_in: 3600,
+  });
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const [, provider, endpoint] = url.pathname.split("/");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "Content-Type",
+    });
+    return res.end();
+  }
+
+  if (req.method === "GET" && endpoint === "authorize") {
+    return handleAuthorize(provider, url, res);
+  }
+
+  if (req.method === "POST" && endpoint === "token") {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => handleToken(provider, body, res));
+    return;
+  }
+
+  sendJson(res, 404, { error: "not_found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OAuth server listening on http://localhost:${PORT}`);
+});
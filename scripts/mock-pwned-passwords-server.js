@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the Pwned Passwords range API, so the breached-password
+ * check can be exercised offline.
+ *
+ *   npm run mock:pwned
+ *   EXPO_PUBLIC_PWNED_PASSWORDS_URL=http://localhost:4020 npx expo start
+ *
+ * Endpoints:
+ *   GET /range/:prefix  Lists "SUFFIX:COUNT" for every breached SHA-1 hash
+ *                       starting with the 5-character prefix, like the real
+ *                       API. `Add-Padding: true` adds entries with a count
+ *                       of 0. Prefix `FFFFF` answers 503, to check that the
+ *                       app lets passwords through when the service is down.
+ *
+ * The breached list is a handful of well-known passwords; add your own with
+ * MOCK_PWNED_PASSWORDS=comma,separated,list.
+ */
+
+const crypto = require("crypto");
+const http = require("http");
+
+const PORT = Number(process.env.MOCK_PWNED_PORT || 4020);
+const PADDING_ENTRIES = 20;
+
+const BREACHED_PASSWORDS = [
+  "password",
+  "Password1!",
+  "P@ssw0rd",
+  "123456",
+  "qwerty123",
+  "iloveyou",
+  "Tr0ub4dor&3",
+  "correcthorsebatterystaple",
+  ...(process.env.MOCK_PWNED_PASSWORDS || "").split(",").filter(Boolean),
+];
+
+const sha1 = (value) =>
+  crypto.createHash("sha1").update(value).digest("hex").toUpperCase();
+
+// hash -> times seen, made up but stable per password
+const breachedHashes = new Map(
+  BREACHED_PASSWORDS.map((password, index) => [
+    sha1(password),
+    (BREACHED_PASSWORDS.length - index) * 1000,
+  ]),
+);
+
+const handleRange = (prefix, padded, res) => {
+  if (!/^[0-9A-F]{5}$/.test(prefix)) {
+    res.writeHead(400, { "Content-Type": "text/plain" });
+    return res.end("The hash prefix was not in a valid format");
+  }
+  if (prefix === "FFFFF") {
+    res.writeHead(503, { "Content-Type": "text/plain" });
+    return res.end("Service unavailable");
+  }
+
+  const lines = [...breachedHashes]
+    .filter(([hash]) => hash.startsWith(prefix))
+    .map(([hash, count]) => `${hash.slice(5)}:${count}`);
+
+  if (padded) {
+    for (let i = 0; i < PADDING_ENTRIES; i++) {
+      lines.push(
+        `${crypto.randomBytes(18).toString("hex").slice(0, 35).toUpperCase()}:0`,
+      );
+    }
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/plain",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(lines.join("\r\n"));
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const [, endpoint, prefix] = url.pathname.split("/");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "Add-Padding",
+    });
+    return res.end();
+  }
+
+  if (req.method === "GET" && endpoint === "range") {
+    return handleRange(
+      (prefix || "").toUpperCase(),
+      req.headers["add-padding"] === "true",
+      res,
+    );
+  }
+
+  res.writeHead(404, { "Content-Type": "text/plain" });
+  res.end("Not found");
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `Mock Pwned Passwords server listening on http://localhost:${PORT}`,
+  );
+});
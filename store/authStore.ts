@@ -1,7 +1,10 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { create } from "zustand";
-import { createJSONStorage, persist } from "zustand/middleware";
+import { persist } from "zustand/middleware";
+import { decodeJwt, getTokenExpiry, JwtClaims } from "../utils/jwt";
 import { logger } from "../utils/logger";
+import { secureStorage } from "../utils/secureStorage";
+import { createSessionStorage } from "./sessionStorage";
+import { tokenProvider } from "./tokenProvider";
 
 /**
  * User interface representing authenticated user data
@@ -13,26 +16,208 @@ export interface User {
   name?: string;
   avatar?: string;
   role?: string;
+  permissions?: string[];
+}
+
+export type TwoFactorMethod = "totp" | "backup_code";
+
+/**
+ * A login waiting for its second factor
+ * Kept in memory only, never in the URL or persisted storage
+ */
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  email: string | null; // Unknown for OAuth logins
+  methods: TwoFactorMethod[];
+}
+
+/**
+ * Login attempts are refused until `until` (epoch milliseconds)
+ * - rate_limited: too many attempts from this client
+ * - locked: the account is locked after repeated failures
+ */
+export interface LoginThrottle {
+  until: number;
+  reason: "rate_limited" | "locked";
 }
 
+/**
+ * Throttles in effect: the rate limit holds for every sign-in from this
+ * client, a lockout only for the account it was reported for
+ */
+export interface LoginThrottles {
+  rateLimitedUntil: number | null;
+  lockedUntil: Record<string, number>; // By normalized email
+}
+
+const NO_LOGIN_THROTTLES: LoginThrottles = {
+  rateLimitedUntil: null,
+  lockedUntil: {},
+};
+
+const normalizeLoginEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * The throttle that applies to signing in as `email`, if any; a lockout
+ * is reported over the client-wide rate limit
+ */
+export const findLoginThrottle = (
+  throttles: LoginThrottles,
+  email: string,
+  now = Date.now(),
+): LoginThrottle | null => {
+  const lockedUntil = throttles.lockedUntil[normalizeLoginEmail(email)];
+  if (lockedUntil && lockedUntil > now) {
+    return { until: lockedUntil, reason: "locked" };
+  }
+  if (throttles.rateLimitedUntil && throttles.rateLimitedUntil > now) {
+    return { until: throttles.rateLimitedUntil, reason: "rate_limited" };
+  }
+  return null;
+};
+
+/**
+ * Drop the throttles that have run out
+ */
+const pruneLoginThrottles = (
+  throttles: LoginThrottles,
+  now = Date.now(),
+): LoginThrottles => ({
+  rateLimitedUntil:
+    throttles.rateLimitedUntil && throttles.rateLimitedUntil > now
+      ? throttles.rateLimitedUntil
+      : null,
+  lockedUntil: Object.fromEntries(
+    Object.entries(throttles.lockedUntil).filter(([, until]) => until > now),
+  ),
+});
+
+/**
+ * Build the user from token claims, keeping profile fields already known
+ * for the same user that the token doesn't carry.
+ * Role and permissions come from the claims alone: ones kept from an
+ * earlier token or profile could have been revoked since. A fresh
+ * profile (setUser) brings them back when the token doesn't carry them.
+ */
+const userFromClaims = (
+  claims: JwtClaims,
+  current: User | null,
+): User | null => {
+  const known =
+    current?.id === claims.sub
+      ? { ...current, role: undefined, permissions: undefined }
+      : null;
+  const email = claims.email ?? known?.email;
+  if (!email) {
+    return known;
+  }
+
+  return {
+    ...known,
+    id: claims.sub,
+    email,
+    name: claims.name ?? known?.name,
+    avatar: claims.avatar ?? claims.picture ?? known?.avatar,
+    role: claims.role,
+    permissions: claims.permissions,
+  };
+};
+
+/**
+ * A signed-in account. Several can be kept at once; one is active.
+ */
+export interface AccountSession {
+  token: string;
+  refreshToken: string | null;
+  user: User | null;
+}
+
+/**
+ * Active-account fields for a stored session, or null when the session
+ * can't be used any more (malformed token, or expired without a refresh
+ * token). An expired token with a refresh token is refreshed as soon as
+ * expiry scheduling sees it.
+ */
+const activeFieldsFor = (session: AccountSession) => {
+  const claims = decodeJwt(session.token);
+  if (!claims) {
+    return null;
+  }
+
+  const expiresAt = getTokenExpiry(claims);
+  if (expiresAt <= Date.now() && !session.refreshToken) {
+    return null;
+  }
+
+  return {
+    token: session.token,
+    refreshToken: session.refreshToken,
+    user: userFromClaims(claims, session.user),
+    expiresAt,
+    isAuthenticated: true,
+  };
+};
+
+const withoutSession = (
+  sessions: Record<string, AccountSession>,
+  userId: string | null,
+): Record<string, AccountSession> =>
+  Object.fromEntries(Object.entries(sessions).filter(([id]) => id !== userId));
+
+/**
+ * Active-account fields when no account is active
+ */
+const SIGNED_OUT = {
+  activeUserId: null,
+  token: null,
+  refreshToken: null,
+  user: null,
+  expiresAt: null,
+  isAuthenticated: false,
+};
+
 /**
  * Authentication state interface
  * Single Responsibility Principle - manages only auth-related state
  */
 type AuthState = {
   // State properties
+  sessions: Record<string, AccountSession>; // Keyed by user id
+  activeUserId: string | null;
+  // The active account's session (what the rest of the app reads)
   token: string | null;
+  refreshToken: string | null;
   user: User | null;
+  expiresAt: number | null; // Access token expiry, epoch milliseconds
   isAuthenticated: boolean;
   isLoading: boolean;
+  hasHydrated: boolean; // Persisted sessions have been restored
   error: string | null;
+  twoFactorChallenge: TwoFactorChallenge | null;
+  loginThrottles: LoginThrottles;
 
   // Actions - Command Pattern implementation
-  setToken: (token: string) => void;
+  setToken: (token: string, refreshToken?: string | null) => void;
+  updateSessionTokens: (
+    userId: string,
+    token: string,
+    refreshToken?: string | null,
+  ) => boolean;
   setUser: (user: User) => void;
   setError: (error: string | null) => void;
   setLoading: (loading: boolean) => void;
+  setTwoFactorChallenge: (challenge: TwoFactorChallenge | null) => void;
+  setLoginThrottle: (email: string, throttle: LoginThrottle) => void;
+  clearLoginThrottle: (email: string) => void;
+  switchAccount: (userId: string) => boolean;
+  deactivateAccount: () => void;
+  removeAccount: (userId: string) => void;
   clearAuth: () => void;
+  clearAllAccounts: () => void;
+  restoreSessions: (
+    sessions: Record<string, AccountSession>,
+    activeUserId: string | null,
+  ) => void;
 
   // Computed getters
   getAuthHeader: () => string | null;
@@ -47,28 +232,109 @@ export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
       // Initial state
-      token: null,
-      user: null,
-      isAuthenticated: false,
+      sessions: {},
+      ...SIGNED_OUT,
       isLoading: false,
+      hasHydrated: false,
       error: null,
+      twoFactorChallenge: null,
+      loginThrottles: NO_LOGIN_THROTTLES,
 
       // Actions
-      setToken: (token: string) => {
-        logger.info("Setting authentication token");
-        set({
-          token,
-          isAuthenticated: true,
-          error: null,
+      /**
+       * Store the access token, and the refresh token when one is issued,
+       * and make its account the active one.
+       * Omitting the refresh token keeps the account's current one (token
+       * rotation responses that don't re-issue it).
+       * The token's claims fill in the user and the session expiry;
+       * tokens that can't be decoded are rejected.
+       */
+      setToken: (token: string, refreshToken?: string | null) => {
+        const claims = decodeJwt(token);
+        if (!claims) {
+          logger.error("Rejected malformed authentication token");
+          set({ error: "Received an invalid session. Please sign in again." });
+          return;
+        }
+
+        logger.info("Setting authentication token", { userId: claims.sub });
+        set((state) => {
+          const existing = state.sessions[claims.sub];
+          const session: AccountSession = {
+            token,
+            refreshToken:
+              refreshToken === undefined
+                ? (existing?.refreshToken ?? null)
+                : refreshToken,
+            user: userFromClaims(claims, existing?.user ?? null),
+          };
+
+          return {
+            sessions: { ...state.sessions, [claims.sub]: session },
+            activeUserId: claims.sub,
+            token,
+            refreshToken: session.refreshToken,
+            user: session.user,
+            expiresAt: getTokenExpiry(claims),
+            isAuthenticated: true,
+            error: null,
+            twoFactorChallenge: null,
+          };
         });
       },
 
+      /**
+       * Store refreshed tokens for one signed-in account, active or not,
+       * without changing which account is active.
+       * Returns false when the token isn't for that account or the
+       * account has been signed out meanwhile.
+       */
+      updateSessionTokens: (userId, token, refreshToken) => {
+        const claims = decodeJwt(token);
+        const existing = get().sessions[userId];
+        if (!claims || claims.sub !== userId || !existing) {
+          logger.warn("Discarding refreshed token for another session", {
+            userId,
+          });
+          return false;
+        }
+
+        const session: AccountSession = {
+          token,
+          refreshToken:
+            refreshToken === undefined ? existing.refreshToken : refreshToken,
+          user: userFromClaims(claims, existing.user),
+        };
+        set((state) => ({
+          sessions: { ...state.sessions, [userId]: session },
+          ...(state.activeUserId === userId
+            ? {
+                token,
+                refreshToken: session.refreshToken,
+                user: session.user,
+                expiresAt: getTokenExpiry(claims),
+              }
+            : {}),
+        }));
+        return true;
+      },
+
       setUser: (user: User) => {
         logger.info("Setting user data", {
           userId: user.id,
           email: user.email,
         });
-        set({ user });
+        set((state) => {
+          const session = state.sessions[user.id];
+          return {
+            // A late response for an account that's no longer active
+            // only updates that account's session
+            user: user.id === state.activeUserId ? user : state.user,
+            sessions: session
+              ? { ...state.sessions, [user.id]: { ...session, user } }
+              : state.sessions,
+          };
+        });
       },
 
       setError: (error: string | null) => {
@@ -80,21 +346,155 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading });
       },
 
+      setTwoFactorChallenge: (twoFactorChallenge) => {
+        set({ twoFactorChallenge, error: null });
+      },
+
       /**
-       * Clear all authentication data
+       * Record a throttle reported while signing in as `email`
+       */
+      setLoginThrottle: (email, { reason, until }) => {
+        logger.warn("Login attempts throttled", {
+          reason,
+          until: new Date(until).toISOString(),
+        });
+
+        const loginThrottles = pruneLoginThrottles(get().loginThrottles);
+        set({
+          loginThrottles:
+            reason === "locked"
+              ? {
+                  ...loginThrottles,
+                  lockedUntil: {
+                    ...loginThrottles.lockedUntil,
+                    [normalizeLoginEmail(email)]: until,
+                  },
+                }
+              : { ...loginThrottles, rateLimitedUntil: until },
+        });
+      },
+
+      /**
+       * A sign-in as `email` went through: lift the rate limit and that
+       * account's lockout
+       */
+      clearLoginThrottle: (email) => {
+        const { [normalizeLoginEmail(email)]: _lifted, ...lockedUntil } =
+          get().loginThrottles.lockedUntil;
+        set({
+          loginThrottles: pruneLoginThrottles({
+            rateLimitedUntil: null,
+            lockedUntil,
+          }),
+        });
+      },
+
+      /**
+       * Make another signed-in account the active one.
+       * Returns false (and forgets the account) when its session can no
+       * longer be used, so the caller can ask for a fresh sign-in.
+       */
+      switchAccount: (userId: string) => {
+        const session = get().sessions[userId];
+        if (!session) {
+          return false;
+        }
+
+        const fields = activeFieldsFor(session);
+        if (!fields) {
+          logger.warn("Dropping expired account session", { userId });
+          set((state) => ({
+            sessions: withoutSession(state.sessions, userId),
+          }));
+          return false;
+        }
+
+        logger.info("Switching account", { userId });
+        set({
+          ...fields,
+          activeUserId: userId,
+          error: null,
+          twoFactorChallenge: null,
+        });
+        return true;
+      },
+
+      /**
+       * Leave every account signed in but none active
+       * (e.g. to sign in to another account)
+       */
+      deactivateAccount: () => {
+        set({ ...SIGNED_OUT, error: null, twoFactorChallenge: null });
+      },
+
+      /**
+       * Forget one account; removing the active one signs it out
+       */
+      removeAccount: (userId: string) => {
+        if (get().activeUserId === userId) {
+          get().clearAuth();
+          return;
+        }
+
+        logger.info("Removing account", { userId });
+        set((state) => ({ sessions: withoutSession(state.sessions, userId) }));
+      },
+
+      /**
+       * Sign out the active account; other accounts stay signed in
        * Command Pattern: Encapsulates the clearing operation
+       * A login throttle is kept: it belongs to the server, not the session.
        */
       clearAuth: () => {
         logger.info("Clearing authentication data");
+        set((state) => ({
+          ...SIGNED_OUT,
+          sessions: withoutSession(state.sessions, state.activeUserId),
+          isLoading: false,
+          error: null,
+          twoFactorChallenge: null,
+        }));
+      },
+
+      /**
+       * Sign out every account
+       */
+      clearAllAccounts: () => {
+        logger.info("Clearing all accounts");
         set({
-          token: null,
-          user: null,
-          isAuthenticated: false,
+          ...SIGNED_OUT,
+          sessions: {},
           isLoading: false,
           error: null,
+          twoFactorChallenge: null,
         });
       },
 
+      /**
+       * Replace every session with stored ones (from storage, or from
+       * another tab), validating the tokens instead of trusting them
+       */
+      restoreSessions: (storedSessions, activeUserId) => {
+        const sessions = Object.fromEntries(
+          Object.entries(storedSessions).filter(
+            ([, session]) => !!activeFieldsFor(session),
+          ),
+        );
+        if (
+          Object.keys(sessions).length !== Object.keys(storedSessions).length
+        ) {
+          logger.warn("Discarding malformed or expired stored sessions");
+        }
+
+        const active = activeUserId ? sessions[activeUserId] : undefined;
+        const fields = active ? activeFieldsFor(active) : null;
+        set(
+          fields
+            ? { sessions, ...fields, activeUserId }
+            : { sessions, ...SIGNED_OUT },
+        );
+      },
+
       /**
        * Get formatted authorization header
        * Factory Method Pattern: Creates authorization header format
@@ -106,35 +506,127 @@ export const useAuthStore = create<AuthState>()(
     }),
     {
       name: "auth-storage", // Storage key
-      storage: createJSONStorage(() => AsyncStorage),
+      // Keychain/Keystore on native, encrypted localStorage on web; one
+      // key per session keeps each value under SecureStore's size limit
+      storage: createSessionStorage(secureStorage),
+
+      version: 2,
 
       /**
        * Partial persistence - only persist essential data
        * Security consideration: Don't persist sensitive temporary data
+       * The active account's fields are rebuilt from its session.
        */
       partialize: (state) => ({
-        token: state.token,
-        user: state.user,
-        isAuthenticated: state.isAuthenticated,
+        sessions: state.sessions,
+        activeUserId: state.activeUserId,
+        loginThrottles: state.loginThrottles, // Countdowns survive a restart
       }),
 
+      /**
+       * Version 0 stored a single session as token/refreshToken/user;
+       * version 1 kept one device-wide `loginThrottle`
+       */
+      migrate: (persistedState, version) => {
+        const persisted = (persistedState ?? {}) as Record<string, any>;
+        if (version > 1) {
+          return persisted;
+        }
+
+        let migrated: Record<string, any> = persisted;
+        if (version === 0) {
+          const claims =
+            typeof persisted.token === "string"
+              ? decodeJwt(persisted.token)
+              : null;
+          migrated = claims
+            ? {
+                sessions: {
+                  [claims.sub]: {
+                    token: persisted.token,
+                    refreshToken: persisted.refreshToken ?? null,
+                    user: persisted.user ?? null,
+                  },
+                },
+                activeUserId: claims.sub,
+              }
+            : { sessions: {}, activeUserId: null };
+        }
+
+        // A lockout stored without its email can't be kept
+        const { loginThrottle, ...rest } = migrated;
+        return {
+          ...rest,
+          loginThrottles: {
+            rateLimitedUntil:
+              loginThrottle?.reason === "rate_limited"
+                ? loginThrottle.until
+                : null,
+            lockedUntil: {},
+          },
+        };
+      },
+
       /**
        * Handle rehydration - restore state from storage
        * Template Method Pattern: Defines steps for state restoration
+       * `hasHydrated` is set either way, so redirects never wait forever
        */
-      onRehydrateStorage: () => (state) => {
+      onRehydrateStorage: () => (state, error) => {
+        if (error) {
+          logger.error("Failed to restore auth state", { error });
+        }
+
         if (state) {
           logger.info("Auth state rehydrated from storage");
-          // Validate token on rehydration if needed
-          if (state.token && !state.isAuthenticated) {
-            state.isAuthenticated = true;
+
+          useAuthStore
+            .getState()
+            .restoreSessions(state.sessions, state.activeUserId);
+
+          // Drop throttles that ran out while the app was closed
+          useAuthStore.setState({
+            loginThrottles: pruneLoginThrottles(
+              state.loginThrottles ?? NO_LOGIN_THROTTLES,
+            ),
+          });
+
+          const { token, refreshToken } = useAuthStore.getState();
+          tokenProvider.setTokens({ accessToken: token, refreshToken });
+
+          // Adopt a token saved by builds that stored it under its own key
+          if (!token) {
+            tokenProvider.takeLegacyToken().then((legacyToken) => {
+              if (legacyToken) {
+                useAuthStore.getState().setToken(legacyToken);
+              }
+            });
           }
         }
+
+        useAuthStore.setState({ hasHydrated: true });
       },
     },
   ),
 );
 
+/**
+ * Mirror every token change into the token provider
+ * Observer Pattern: the API client reads tokens synchronously from memory
+ * instead of subscribing to the store or awaiting storage
+ */
+useAuthStore.subscribe((state, previousState) => {
+  if (
+    state.token !== previousState.token ||
+    state.refreshToken !== previousState.refreshToken
+  ) {
+    tokenProvider.setTokens({
+      accessToken: state.token,
+      refreshToken: state.refreshToken,
+    });
+  }
+});
+
 /**
  * Auth store selectors for optimized component subscriptions
  * Selector Pattern: Provides specific slices of state to prevent unnecessary re-renders
@@ -143,12 +635,19 @@ export const authSelectors = {
   // Authentication status selectors
   isAuthenticated: (state: AuthState) => state.isAuthenticated,
   isLoading: (state: AuthState) => state.isLoading,
+  hasHydrated: (state: AuthState) => state.hasHydrated,
   hasError: (state: AuthState) => !!state.error,
 
   // Data selectors
+  sessions: (state: AuthState) => state.sessions,
+  activeUserId: (state: AuthState) => state.activeUserId,
   token: (state: AuthState) => state.token,
+  refreshToken: (state: AuthState) => state.refreshToken,
   user: (state: AuthState) => state.user,
+  expiresAt: (state: AuthState) => state.expiresAt,
   error: (state: AuthState) => state.error,
+  twoFactorChallenge: (state: AuthState) => state.twoFactorChallenge,
+  loginThrottles: (state: AuthState) => state.loginThrottles,
 
   // Computed selectors
   userDisplayName: (state: AuthState) =>
@@ -0,0 +1,13 @@
+/**
+ * Cross-tab auth sync on native builds
+ *
+ * A native app has a single instance, so there is nothing to sync; the
+ * web build resolves `authSync.web.ts` instead.
+ */
+export const startAuthSync = (): (() => void) => () => {};
+
+/**
+ * Run a token refresh; with a single instance there's nobody to race
+ */
+export const withAuthRefreshLock = <T>(refresh: () => Promise<T>): Promise<T> =>
+  refresh();
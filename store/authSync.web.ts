@@ -0,0 +1,92 @@
+import { logger } from "../utils/logger";
+import { AccountSession, LoginThrottles, useAuthStore } from "./authStore";
+
+const CHANNEL_NAME = "auth-sync";
+const REFRESH_LOCK_NAME = "auth-refresh";
+
+/**
+ * The persisted part of the auth state, as sent between tabs
+ */
+interface AuthSnapshot {
+  sessions: Record<string, AccountSession>;
+  activeUserId: string | null;
+  loginThrottles: LoginThrottles;
+}
+
+/**
+ * Keep every open tab signed in to the same accounts
+ *
+ * Design Patterns Used:
+ * - Observer Pattern: Local auth changes are published, peers' applied
+ * - Mediator Pattern: A BroadcastChannel connects the tabs' stores
+ *
+ * The snapshot travels over the channel (same origin, memory only)
+ * rather than being re-read from storage, since the encrypted write may
+ * not have finished when peers hear about it. Sharing it also keeps
+ * refresh-token rotation from signing other tabs out: each tab adopts
+ * the newest token pair instead of replaying an old one.
+ *
+ * Returns a cleanup function that stops syncing.
+ */
+export const startAuthSync = (): (() => void) => {
+  if (typeof BroadcastChannel === "undefined") {
+    logger.warn("BroadcastChannel unavailable, tabs won't share sign-ins");
+    return () => {};
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  let applyingPeerChange = false;
+
+  channel.onmessage = (event: MessageEvent<AuthSnapshot>) => {
+    const { sessions, activeUserId, loginThrottles } = event.data;
+    logger.info("Applying auth change from another tab", { activeUserId });
+
+    applyingPeerChange = true;
+    try {
+      useAuthStore.getState().restoreSessions(sessions, activeUserId);
+      useAuthStore.setState({ loginThrottles });
+    } finally {
+      applyingPeerChange = false;
+    }
+  };
+
+  const unsubscribe = useAuthStore.subscribe((state, previousState) => {
+    // Don't echo a peer's change back, or publish before hydration
+    if (applyingPeerChange || !state.hasHydrated) return;
+
+    if (
+      state.sessions !== previousState.sessions ||
+      state.activeUserId !== previousState.activeUserId ||
+      state.loginThrottles !== previousState.loginThrottles
+    ) {
+      const snapshot: AuthSnapshot = {
+        sessions: state.sessions,
+        activeUserId: state.activeUserId,
+        loginThrottles: state.loginThrottles,
+      };
+      channel.postMessage(snapshot);
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    channel.close();
+  };
+};
+
+/**
+ * Run a token refresh while holding a lock shared by every tab
+ *
+ * Each tab arms its own expiry timer from the same `expiresAt`, so
+ * without this they'd all redeem the same refresh token at once and, with
+ * rotation, all but one would be rejected and sign everyone out. Callers
+ * re-read the store once they hold the lock: the tab that went first has
+ * shared the new pair by then. Browsers without the Web Locks API just
+ * refresh.
+ */
+export const withAuthRefreshLock = <T>(
+  refresh: () => Promise<T>,
+): Promise<T> =>
+  typeof navigator !== "undefined" && navigator.locks
+    ? navigator.locks.request(REFRESH_LOCK_NAME, refresh)
+    : refresh();
@@ -0,0 +1,146 @@
+import {
+  createJSONStorage,
+  PersistStorage,
+  StateStorage,
+  StorageValue,
+} from "zustand/middleware";
+import { logger } from "../utils/logger";
+
+/**
+ * Persisted entry as written to storage: the state without its sessions,
+ * plus the ids of the sessions stored under their own keys
+ */
+type StoredIndex<S> = StorageValue<Omit<S, "sessions">> & {
+  sessionIds: string[];
+};
+
+/**
+ * SecureStore keys may only contain letters, digits, ".", "-" and "_";
+ * anything else in a user id (and "_" itself) is escaped as `_xxxx`
+ */
+const sessionKey = (name: string, userId: string) =>
+  `${name}.session.${userId.replace(
+    /[^A-Za-z0-9.-]/g,
+    (char) => `_${char.charCodeAt(0).toString(16).padStart(4, "0")}`,
+  )}`;
+
+const readJson = async (storage: StateStorage, key: string) => {
+  const value = await storage.getItem(key);
+  return value === null ? null : JSON.parse(value);
+};
+
+/**
+ * Persist storage that keeps each session under its own key
+ *
+ * Design Patterns Used:
+ * - Adapter Pattern: A zustand PersistStorage over a string StateStorage
+ * - Decorator Pattern: Splitting is invisible to the store and to the
+ *   wrapped storage
+ *
+ * SecureStore values over 2048 bytes may not be saved, and a single
+ * session (two tokens and a profile) already takes a good part of that.
+ * The main entry keeps the rest of the state and the list of session
+ * ids; each session is written only when it changed. Entries saved by
+ * earlier builds, with every session inline, are read as they are and
+ * split on the next write.
+ */
+export const createSessionStorage = <S extends { sessions?: unknown }>(
+  storage: StateStorage,
+): PersistStorage<S> => {
+  // What's currently stored per session key, to skip unchanged writes
+  // and remove sessions that are gone
+  const storedSessions = new Map<string, string>();
+  let write: Promise<unknown> = Promise.resolve();
+
+  const legacyStorage = createJSONStorage<S>(() => storage)!;
+
+  return {
+    getItem: async (name) => {
+      const stored = (await readJson(storage, name)) as
+        | StoredIndex<S>
+        | StorageValue<S>
+        | null;
+      if (!stored || !("sessionIds" in stored)) {
+        return legacyStorage.getItem(name) as Promise<StorageValue<S> | null>;
+      }
+
+      const { sessionIds, ...index } = stored;
+      const sessions: Record<string, unknown> = {};
+      for (const userId of sessionIds) {
+        const key = sessionKey(name, userId);
+        try {
+          const value = await storage.getItem(key);
+          if (value === null) {
+            logger.warn("Stored session missing, skipping it");
+            continue;
+          }
+          sessions[userId] = JSON.parse(value);
+          storedSessions.set(key, value);
+        } catch {
+          logger.warn("Discarding unreadable stored session");
+        }
+      }
+
+      return {
+        ...index,
+        state: { ...index.state, sessions } as S,
+      };
+    },
+
+    // One write at a time, so a slow write can't remove the keys of a
+    // session a later write added
+    setItem: (name, { state, version }) => {
+      const result = write.then(async () => {
+        const { sessions = {}, ...rest } = state as S & {
+          sessions?: Record<string, unknown>;
+        };
+        const sessionIds = Object.keys(sessions);
+
+        const keys = new Set<string>();
+        for (const userId of sessionIds) {
+          const key = sessionKey(name, userId);
+          const value = JSON.stringify(sessions[userId]);
+          keys.add(key);
+          if (storedSessions.get(key) !== value) {
+            await storage.setItem(key, value);
+            storedSessions.set(key, value);
+          }
+        }
+
+        const index: StoredIndex<S> = { state: rest, version, sessionIds };
+        await storage.setItem(name, JSON.stringify(index));
+
+        for (const key of [...storedSessions.keys()]) {
+          if (!keys.has(key)) {
+            await storage.removeItem(key);
+            storedSessions.delete(key);
+          }
+        }
+      });
+      write = result.catch(() => undefined);
+      return result;
+    },
+
+    removeItem: (name) => {
+      const result = write.then(async () => {
+        const keys = new Set(storedSessions.keys());
+        try {
+          const stored = await readJson(storage, name);
+          (stored?.sessionIds ?? []).forEach((userId: string) =>
+            keys.add(sessionKey(name, userId)),
+          );
+        } catch {
+          // Unreadable index: remove the sessions known from this run
+        }
+
+        await storage.removeItem(name);
+        for (const key of keys) {
+          await storage.removeItem(key);
+          storedSessions.delete(key);
+        }
+      });
+      write = result.catch(() => undefined);
+      return result;
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { logger } from "../utils/logger";
+
+/**
+ * Storage key used by earlier builds, before the token moved into the
+ * persisted `auth-storage` blob
+ */
+const LEGACY_TOKEN_KEY = "token";
+
+export interface AuthTokens {
+  accessToken: string | null;
+  refreshToken: string | null;
+}
+
+/**
+ * In-memory token holder shared by the auth store and the API client
+ *
+ * Design Patterns Used:
+ * - Singleton Pattern: One token source for the whole app
+ * - Mediator Pattern: Decouples the store (writer) from the axios
+ *   interceptors (readers) without a circular import
+ *
+ * The auth store is the only writer; everything else reads synchronously,
+ * so requests never wait on AsyncStorage.
+ */
+class TokenProvider {
+  private tokens: AuthTokens = { accessToken: null, refreshToken: null };
+
+  /**
+   * Get the current access token
+   */
+  getAccessToken(): string | null {
+    return this.tokens.accessToken;
+  }
+
+  /**
+   * Get the current refresh token
+   */
+  getRefreshToken(): string | null {
+    return this.tokens.refreshToken;
+  }
+
+  /**
+   * Replace the tokens held in memory
+   */
+  setTokens(tokens: AuthTokens): void {
+    this.tokens = { ...tokens };
+  }
+
+  /**
+   * Forget both tokens
+   */
+  clear(): void {
+    this.tokens = { accessToken: null, refreshToken: null };
+  }
+
+  /**
+   * Read and remove a token stored under the legacy `token` key.
+   * Returns the token once so the caller can adopt it; later calls
+   * return null.
+   */
+  async takeLegacyToken(): Promise<string | null> {
+    try {
+      const legacyToken = await AsyncStorage.getItem(LEGACY_TOKEN_KEY);
+      if (legacyToken) {
+        await AsyncStorage.removeItem(LEGACY_TOKEN_KEY);
+        logger.info("Migrated legacy auth token");
+      }
+      return legacyToken;
+    } catch (error) {
+      logger.warn("Failed to read legacy auth token", { error });
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const tokenProvider = new TokenProvider();
@@ -0,0 +1,544 @@
+import {
+  createHash,
+  createPublicKey,
+  generateKeyPairSync,
+  KeyObject,
+  sign,
+  verify,
+} from "crypto";
+import { createPasskeyCredential, getPasskeyCredential } from "../passkeys.web";
+import {
+  base64UrlToBuffer,
+  bufferToBase64Url,
+  PasskeyAssertionCredential,
+  PasskeyCreationOptions,
+  PasskeyRegistrationCredential,
+  PasskeyRequestOptions,
+} from "../webauthn";
+
+jest.mock("../logger");
+
+const RP_ID = "example.com";
+const ORIGIN = "https://example.com";
+
+const CREDENTIAL_ID = bufferToBase64Url(new Uint8Array([1, 2, 3, 4]).buffer);
+const USER_HANDLE = bufferToBase64Url(
+  new TextEncoder().encode("user-1").buffer as ArrayBuffer,
+);
+
+const creationOptions: PasskeyCreationOptions = {
+  challenge: "Y3JlYXRlLWNoYWxsZW5nZQ",
+  rp: { id: RP_ID, name: "Example" },
+  user: { id: USER_HANDLE, name: "ada@example.com", displayName: "Ada" },
+  pubKeyCredParams: [{ type: "public-key", alg: -7 }],
+  excludeCredentials: [{ id: CREDENTIAL_ID, type: "public-key" }],
+};
+
+const requestOptions: PasskeyRequestOptions = {
+  challenge: "Z2V0LWNoYWxsZW5nZQ",
+  rpId: RP_ID,
+  allowCredentials: [{ id: CREDENTIAL_ID, type: "public-key" }],
+};
+
+// Authenticator data flags: user present, user verified, attested data
+const FLAG_UP = 0x01;
+const FLAG_UV = 0x04;
+const FLAG_AT = 0x40;
+
+const toArrayBuffer = (bytes: Uint8Array) =>
+  bytes.slice().buffer as ArrayBuffer;
+
+const fromBase64Url = (value: string) =>
+  new Uint8Array(base64UrlToBuffer(value));
+
+const concat = (...parts: ArrayLike<number>[]) =>
+  Uint8Array.from(parts.flatMap((part) => Array.from(part)));
+
+const sha256 = (data: Uint8Array) =>
+  new Uint8Array(createHash("sha256").update(data).digest());
+
+const utf8 = (value: string) => new TextEncoder().encode(value);
+
+const decodeClientData = (clientDataJSON: string) =>
+  JSON.parse(new TextDecoder().decode(base64UrlToBuffer(clientDataJSON)));
+
+type CborValue = number | string | Uint8Array | Map<CborValue, CborValue>;
+
+/**
+ * CBOR (RFC 8949), only the types attestation objects and COSE keys use
+ */
+const cborHead = (major: number, length: number) =>
+  length < 24
+    ? [(major << 5) | length]
+    : length < 256
+      ? [(major << 5) | 24, length]
+      : [(major << 5) | 25, length >> 8, length & 0xff];
+
+const encodeCbor = (value: CborValue): Uint8Array => {
+  if (typeof value === "number") {
+    return Uint8Array.from(
+      value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value),
+    );
+  }
+  if (typeof value === "string") {
+    return concat(cborHead(3, utf8(value).length), utf8(value));
+  }
+  if (value instanceof Uint8Array) {
+    return concat(cborHead(2, value.length), value);
+  }
+  return concat(
+    cborHead(5, value.size),
+    ...[...value].flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]),
+  );
+};
+
+const decodeCbor = (bytes: Uint8Array, offset = 0): [CborValue, number] => {
+  const major = bytes[offset] >> 5;
+  const info = bytes[offset] & 0x1f;
+  let length = info;
+  let position = offset + 1;
+  if (info === 24) {
+    length = bytes[position];
+    position += 1;
+  } else if (info === 25) {
+    length = (bytes[position] << 8) | bytes[position + 1];
+    position += 2;
+  }
+
+  switch (major) {
+    case 0:
+      return [length, position];
+    case 1:
+      return [-1 - length, position];
+    case 2:
+      return [bytes.slice(position, position + length), position + length];
+    case 3:
+      return [
+        new TextDecoder().decode(bytes.slice(position, position + length)),
+        position + length,
+      ];
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const [key, afterKey] = decodeCbor(bytes, position);
+        const [item, afterItem] = decodeCbor(bytes, afterKey);
+        map.set(key, item);
+        position = afterItem;
+      }
+      return [map, position];
+    }
+    default:
+      throw new Error(`Unsupported CBOR major type ${major}`);
+  }
+};
+
+const authenticatorData = (
+  rpId: string,
+  flags: number,
+  signCount: number,
+  attestedCredentialData: Uint8Array = new Uint8Array(),
+) =>
+  concat(
+    sha256(utf8(rpId)),
+    [flags],
+    [signCount >>> 24, (signCount >> 16) & 0xff, (signCount >> 8) & 0xff],
+    [signCount & 0xff],
+    attestedCredentialData,
+  );
+
+/**
+ * Software authenticator behind `navigator.credentials`
+ *
+ * Creating a credential generates an ES256 (P-256) key pair and returns a
+ * "none" attestation carrying its COSE public key; getting one signs
+ * authenticatorData || SHA-256(clientDataJSON) with that key, as
+ * hardware does.
+ */
+const createSoftwareAuthenticator = () => {
+  const credentials = new Map<
+    string,
+    { privateKey: KeyObject; signCount: number }
+  >();
+
+  const clientDataJSON = (type: string, challenge: BufferSource) =>
+    utf8(
+      JSON.stringify({
+        type,
+        challenge: bufferToBase64Url(challenge as ArrayBuffer),
+        origin: ORIGIN,
+        crossOrigin: false,
+      }),
+    );
+
+  return {
+    create: jest.fn(
+      async ({
+        publicKey,
+      }: {
+        publicKey: PublicKeyCredentialCreationOptions;
+      }) => {
+        const keyPair = generateKeyPairSync("ec", { namedCurve: "P-256" });
+        credentials.set(CREDENTIAL_ID, {
+          privateKey: keyPair.privateKey,
+          signCount: 0,
+        });
+
+        const jwk = keyPair.publicKey.export({ format: "jwk" });
+        const coseKey = encodeCbor(
+          new Map<CborValue, CborValue>([
+            [1, 2], // kty: EC2
+            [3, -7], // alg: ES256
+            [-1, 1], // crv: P-256
+            [-2, fromBase64Url(jwk.x!)],
+            [-3, fromBase64Url(jwk.y!)],
+          ]),
+        );
+        const credentialId = fromBase64Url(CREDENTIAL_ID);
+        const authData = authenticatorData(
+          publicKey.rp.id!,
+          FLAG_UP | FLAG_UV | FLAG_AT,
+          0,
+          concat(
+            new Uint8Array(16), // AAGUID
+            [credentialId.length >> 8, credentialId.length & 0xff],
+            credentialId,
+            coseKey,
+          ),
+        );
+
+        return {
+          id: CREDENTIAL_ID,
+          rawId: toArrayBuffer(credentialId),
+          type: "public-key",
+          authenticatorAttachment: "platform",
+          response: {
+            clientDataJSON: toArrayBuffer(
+              clientDataJSON("webauthn.create", publicKey.challenge),
+            ),
+            attestationObject: toArrayBuffer(
+              encodeCbor(
+                new Map<CborValue, CborValue>([
+                  ["fmt", "none"],
+                  ["attStmt", new Map()],
+                  ["authData", authData],
+                ]),
+              ),
+            ),
+            getTransports: () => ["internal"],
+          },
+        };
+      },
+    ),
+    get: jest.fn(
+      async ({
+        publicKey,
+      }: {
+        publicKey: PublicKeyCredentialRequestOptions;
+      }) => {
+        const id = bufferToBase64Url(
+          publicKey.allowCredentials![0].id as ArrayBuffer,
+        );
+        const credential = credentials.get(id);
+        if (!credential) {
+          throw domError("NotAllowedError");
+        }
+
+        credential.signCount += 1;
+        const authData = authenticatorData(
+          publicKey.rpId!,
+          FLAG_UP | FLAG_UV,
+          credential.signCount,
+        );
+        const clientData = clientDataJSON("webauthn.get", publicKey.challenge);
+        const signature = sign(
+          "sha256",
+          concat(authData, sha256(clientData)),
+          credential.privateKey,
+        );
+
+        return {
+          id,
+          rawId: base64UrlToBuffer(id),
+          type: "public-key",
+          authenticatorAttachment: "platform",
+          response: {
+            clientDataJSON: toArrayBuffer(clientData),
+            authenticatorData: toArrayBuffer(authData),
+            signature: toArrayBuffer(signature),
+            userHandle: base64UrlToBuffer(USER_HANDLE),
+          },
+        };
+      },
+    ),
+  };
+};
+
+/**
+ * The relying party's side of registration: check the client and
+ * authenticator data, then read the credential's public key
+ */
+const verifyRegistration = (
+  credential: PasskeyRegistrationCredential,
+  challenge: string,
+): KeyObject => {
+  expect(decodeClientData(credential.response.clientDataJSON)).toEqual({
+    type: "webauthn.create",
+    challenge,
+    origin: ORIGIN,
+    crossOrigin: false,
+  });
+
+  const [attestation] = decodeCbor(
+    fromBase64Url(credential.response.attestationObject),
+  ) as [Map<CborValue, CborValue>, number];
+  expect(attestation.get("fmt")).toBe("none");
+
+  const authData = attestation.get("authData") as Uint8Array;
+  expect(authData.slice(0, 32)).toEqual(sha256(utf8(RP_ID)));
+  expect(authData[32] & FLAG_AT).toBe(FLAG_AT);
+
+  const idLength = (authData[53] << 8) | authData[54];
+  expect(
+    bufferToBase64Url(toArrayBuffer(authData.slice(55, 55 + idLength))),
+  ).toBe(credential.rawId);
+
+  const [coseKey] = decodeCbor(authData, 55 + idLength) as [
+    Map<CborValue, CborValue>,
+    number,
+  ];
+  expect(coseKey.get(3)).toBe(-7);
+  return createPublicKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      x: bufferToBase64Url(toArrayBuffer(coseKey.get(-2) as Uint8Array)),
+      y: bufferToBase64Url(toArrayBuffer(coseKey.get(-3) as Uint8Array)),
+    },
+    format: "jwk",
+  });
+};
+
+/**
+ * The relying party's side of sign-in: the signature over the
+ * authenticator data and client data hash must verify
+ */
+const verifyAssertion = (
+  credential: PasskeyAssertionCredential,
+  challenge: string,
+  publicKey: KeyObject,
+): boolean => {
+  expect(decodeClientData(credential.response.clientDataJSON)).toEqual({
+    type: "webauthn.get",
+    challenge,
+    origin: ORIGIN,
+    crossOrigin: false,
+  });
+
+  const authData = fromBase64Url(credential.response.authenticatorData);
+  expect(authData.slice(0, 32)).toEqual(sha256(utf8(RP_ID)));
+
+  return verify(
+    "sha256",
+    concat(authData, sha256(fromBase64Url(credential.response.clientDataJSON))),
+    publicKey,
+    fromBase64Url(credential.response.signature),
+  );
+};
+
+const domError = (name: string) =>
+  Object.assign(new Error(`${name} from the authenticator`), { name });
+
+const setGlobal = (name: string, value: unknown) =>
+  Object.defineProperty(globalThis, name, {
+    value,
+    configurable: true,
+    writable: true,
+  });
+
+describe("passkeys (web)", () => {
+  let authenticator: ReturnType<typeof createSoftwareAuthenticator>;
+
+  beforeEach(() => {
+    authenticator = createSoftwareAuthenticator();
+    setGlobal("PublicKeyCredential", function PublicKeyCredential() {});
+    setGlobal("navigator", { credentials: authenticator });
+  });
+
+  afterEach(() => {
+    setGlobal("PublicKeyCredential", undefined);
+    setGlobal("navigator", undefined);
+  });
+
+  describe("createPasskeyCredential", () => {
+    it("hands the browser binary options and returns JSON", async () => {
+      const result = await createPasskeyCredential(creationOptions);
+
+      const { publicKey } = authenticator.create.mock.calls[0][0];
+      expect(bufferToBase64Url(publicKey.challenge as ArrayBuffer)).toBe(
+        creationOptions.challenge,
+      );
+      expect(bufferToBase64Url(publicKey.user.id as ArrayBuffer)).toBe(
+        USER_HANDLE,
+      );
+      expect(
+        bufferToBase64Url(publicKey.excludeCredentials![0].id as ArrayBuffer),
+      ).toBe(CREDENTIAL_ID);
+
+      expect(result).toEqual({
+        type: "success",
+        credential: {
+          id: CREDENTIAL_ID,
+          rawId: CREDENTIAL_ID,
+          type: "public-key",
+          response: {
+            clientDataJSON: expect.any(String),
+            attestationObject: expect.any(String),
+            transports: ["internal"],
+          },
+          authenticatorAttachment: "platform",
+        },
+      });
+    });
+
+    it("returns an attestation the server can read the public key from", async () => {
+      const result = await createPasskeyCredential(creationOptions);
+
+      expect(result.type).toBe("success");
+      if (result.type === "success") {
+        const publicKey = verifyRegistration(
+          result.credential,
+          creationOptions.challenge,
+        );
+        expect(publicKey.asymmetricKeyType).toBe("ec");
+      }
+    });
+
+    it("treats NotAllowedError as cancelled", async () => {
+      authenticator.create.mockRejectedValue(domError("NotAllowedError"));
+
+      await expect(createPasskeyCredential(creationOptions)).resolves.toEqual({
+        type: "cancelled",
+      });
+    });
+
+    it("reports InvalidStateError as an existing passkey", async () => {
+      authenticator.create.mockRejectedValue(domError("InvalidStateError"));
+
+      await expect(createPasskeyCredential(creationOptions)).resolves.toEqual({
+        type: "error",
+        message: "This device already has a passkey for your account.",
+      });
+    });
+
+    it("reports other failures with a generic message", async () => {
+      authenticator.create.mockRejectedValue(domError("SecurityError"));
+
+      await expect(createPasskeyCredential(creationOptions)).resolves.toEqual({
+        type: "error",
+        message: "Creating the passkey failed. Please try again.",
+      });
+    });
+
+    it("refuses without WebAuthn support", async () => {
+      setGlobal("PublicKeyCredential", undefined);
+
+      await expect(createPasskeyCredential(creationOptions)).resolves.toEqual({
+        type: "error",
+        message: "This browser doesn't support passkeys.",
+      });
+      expect(authenticator.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getPasskeyCredential", () => {
+    let registeredKey: KeyObject;
+
+    beforeEach(async () => {
+      const registration = await createPasskeyCredential(creationOptions);
+      if (registration.type !== "success") {
+        throw new Error("Registering the test passkey failed");
+      }
+      registeredKey = verifyRegistration(
+        registration.credential,
+        creationOptions.challenge,
+      );
+    });
+
+    it("hands the browser binary options and returns JSON", async () => {
+      const result = await getPasskeyCredential(requestOptions);
+
+      const { publicKey } = authenticator.get.mock.calls[0][0];
+      expect(bufferToBase64Url(publicKey.challenge as ArrayBuffer)).toBe(
+        requestOptions.challenge,
+      );
+      expect(
+        bufferToBase64Url(publicKey.allowCredentials![0].id as ArrayBuffer),
+      ).toBe(CREDENTIAL_ID);
+
+      expect(result).toEqual({
+        type: "success",
+        credential: {
+          id: CREDENTIAL_ID,
+          rawId: CREDENTIAL_ID,
+          type: "public-key",
+          response: {
+            clientDataJSON: expect.any(String),
+            authenticatorData: expect.any(String),
+            signature: expect.any(String),
+            userHandle: USER_HANDLE,
+          },
+          authenticatorAttachment: "platform",
+        },
+      });
+    });
+
+    it("returns an assertion that verifies against the registered key", async () => {
+      const result = await getPasskeyCredential(requestOptions);
+
+      expect(result.type).toBe("success");
+      if (result.type === "success") {
+        expect(
+          verifyAssertion(
+            result.credential,
+            requestOptions.challenge,
+            registeredKey,
+          ),
+        ).toBe(true);
+      }
+    });
+
+    it("returns an assertion that fails against another key", async () => {
+      const result = await getPasskeyCredential(requestOptions);
+      const otherKey = generateKeyPairSync("ec", {
+        namedCurve: "P-256",
+      }).publicKey;
+
+      expect(result.type).toBe("success");
+      if (result.type === "success") {
+        expect(
+          verifyAssertion(
+            result.credential,
+            requestOptions.challenge,
+            otherKey,
+          ),
+        ).toBe(false);
+      }
+    });
+
+    it("treats NotAllowedError as cancelled", async () => {
+      authenticator.get.mockRejectedValue(domError("NotAllowedError"));
+
+      await expect(getPasskeyCredential(requestOptions)).resolves.toEqual({
+        type: "cancelled",
+      });
+    });
+
+    it("treats a missing credential as cancelled", async () => {
+      authenticator.get.mockResolvedValue(null as never);
+
+      await expect(getPasskeyCredential(requestOptions)).resolves.toEqual({
+        type: "cancelled",
+      });
+    });
+  });
+});
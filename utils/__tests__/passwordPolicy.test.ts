@@ -0,0 +1,214 @@
+import axios from "axios";
+import { createHash } from "crypto";
+import * as Crypto from "expo-crypto";
+import {
+  BREACHED_PASSWORD_MESSAGE,
+  checkPasswordBreach,
+  evaluatePassword,
+  validatePasswordNotBreached,
+} from "../passwordPolicy";
+
+jest.mock("axios");
+jest.mock("expo-crypto", () => ({
+  CryptoDigestAlgorithm: { SHA1: "SHA-1" },
+  digestStringAsync: jest.fn(),
+}));
+
+const mockedGet = jest.mocked(axios.get);
+const mockedDigest = jest.mocked(Crypto.digestStringAsync);
+
+// expo-crypto returns lowercase hex
+const sha1 = (value: string) => createHash("sha1").update(value).digest("hex");
+
+const rangeOf = (password: string) => {
+  const hash = sha1(password).toUpperCase();
+  return { prefix: hash.slice(0, 5), suffix: hash.slice(5) };
+};
+
+describe("evaluatePassword", () => {
+  it.each([
+    // Random digits (~3.3 bits each) and lowercase letters (~4.7 bits)
+    ["86358274", 1, "weak"],
+    ["xkqzjvwm", 2, "fair"],
+    ["xkqzjvwmrhd", 3, "good"],
+    ["xkqzjvwmrhdpbt", 4, "strong"],
+  ] as const)("rates %s at score %i", (password, score, strength) => {
+    expect(evaluatePassword(password)).toMatchObject({ score, strength });
+  });
+
+  it("caps passwords shorter than the minimum length", () => {
+    const result = evaluatePassword("xQ7#vz");
+
+    expect(result.score).toBeLessThanOrEqual(1);
+    expect(result.feedback).toContain("Use at least 8 characters");
+  });
+
+  it.each(["password", "P@ssw0rd", "drowssap", "Password1!"])(
+    "rates the common password %s weak",
+    (password) => {
+      const result = evaluatePassword(password);
+
+      expect(result).toMatchObject({ score: 0, strength: "weak" });
+      expect(result.feedback).toContain("Avoid common words and passwords");
+    },
+  );
+
+  it("rates common words far below random letters of the same length", () => {
+    const common = evaluatePassword("monkeydragon");
+    const random = evaluatePassword("xkqzjvwmrhdp");
+
+    expect(common.score).toBe(0);
+    expect(random.score).toBe(3);
+    expect(common.entropyBits).toBeLessThan(random.entropyBits / 4);
+  });
+
+  it("penalises the user's own details", () => {
+    const withoutInputs = evaluatePassword("lovelacewqx");
+    const withInputs = evaluatePassword("lovelacewqx", [
+      "ada.lovelace@example.com",
+    ]);
+
+    expect(withInputs.score).toBeLessThan(withoutInputs.score);
+    expect(withInputs.feedback).toContain("Avoid using your name or email");
+  });
+
+  it("explains keyboard patterns, sequences, repeats and years", () => {
+    expect(evaluatePassword("zxcvbnm").feedback).toContain(
+      'Avoid keyboard patterns like "qwerty"',
+    );
+    expect(evaluatePassword("abcdefgh").feedback).toContain(
+      'Avoid sequences like "abc" or "123"',
+    );
+    expect(evaluatePassword("xoxoxoxo").feedback).toContain(
+      "Avoid repeated characters or patterns",
+    );
+    expect(evaluatePassword("qkzj1987").feedback).toContain(
+      "Avoid years and dates",
+    );
+  });
+});
+
+describe("checkPasswordBreach", () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+    mockedDigest.mockReset();
+    mockedDigest.mockImplementation(async (_algorithm, value) => sha1(value));
+  });
+
+  it("sends only the hash prefix, asking for a padded response", async () => {
+    const { prefix, suffix } = rangeOf("hunter2");
+    mockedGet.mockResolvedValue({ data: `${suffix}:17\r\n` });
+
+    await checkPasswordBreach("hunter2");
+
+    expect(mockedGet).toHaveBeenCalledWith(
+      expect.stringMatching(new RegExp(`/range/${prefix}$`)),
+      expect.objectContaining({ headers: { "Add-Padding": "true" } }),
+    );
+  });
+
+  it("reports the count listed for the password's suffix", async () => {
+    const { suffix } = rangeOf("letmein");
+    mockedGet.mockResolvedValue({
+      data: [
+        "0018A45C4D1DEF81644B54AB7F969B88D65:3",
+        `${suffix}:52149`,
+        "00D4F6E8FA6EECAD2A3AA415EEC418D38EC:0",
+      ].join("\r\n"),
+    });
+
+    await expect(checkPasswordBreach("letmein")).resolves.toEqual({
+      type: "breached",
+      count: 52149,
+    });
+  });
+
+  it("matches suffixes regardless of case", async () => {
+    const { suffix } = rangeOf("sunshine");
+    mockedGet.mockResolvedValue({ data: `${suffix.toLowerCase()}:8\n` });
+
+    await expect(checkPasswordBreach("sunshine")).resolves.toEqual({
+      type: "breached",
+      count: 8,
+    });
+  });
+
+  it("treats a padding entry (count 0) for the suffix as clear", async () => {
+    const { suffix } = rangeOf("correct horse battery staple");
+    mockedGet.mockResolvedValue({
+      data: ["0018A45C4D1DEF81644B54AB7F969B88D65:3", `${suffix}:0`].join(
+        "\r\n",
+      ),
+    });
+
+    await expect(
+      checkPasswordBreach("correct horse battery staple"),
+    ).resolves.toEqual({ type: "clear" });
+  });
+
+  it("reports clear when the suffix isn't listed", async () => {
+    mockedGet.mockResolvedValue({
+      data: "0018A45C4D1DEF81644B54AB7F969B88D65:3\r\n",
+    });
+
+    await expect(checkPasswordBreach("xkqzjvwmrhdpbt")).resolves.toEqual({
+      type: "clear",
+    });
+  });
+
+  it("checks each password only once", async () => {
+    const { suffix } = rangeOf("trustno1");
+    mockedGet.mockResolvedValue({ data: `${suffix}:4\r\n` });
+
+    await checkPasswordBreach("trustno1");
+    await expect(checkPasswordBreach("trustno1")).resolves.toEqual({
+      type: "breached",
+      count: 4,
+    });
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails open when the service can't be reached", async () => {
+    mockedGet.mockRejectedValue(new Error("Network Error"));
+
+    await expect(checkPasswordBreach("offline-password")).resolves.toEqual({
+      type: "unavailable",
+    });
+    await expect(
+      validatePasswordNotBreached("offline-password"),
+    ).resolves.toBeUndefined();
+  });
+
+  it("fails open when hashing isn't available", async () => {
+    mockedDigest.mockRejectedValue(new Error("crypto.subtle is unavailable"));
+
+    await expect(checkPasswordBreach("insecure-origin")).resolves.toEqual({
+      type: "unavailable",
+    });
+    expect(mockedGet).not.toHaveBeenCalled();
+  });
+});
+
+describe("validatePasswordNotBreached", () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+    mockedDigest.mockImplementation(async (_algorithm, value) => sha1(value));
+  });
+
+  it("returns the breach message for a breached password", async () => {
+    const { suffix } = rangeOf("qwerty123");
+    mockedGet.mockResolvedValue({ data: `${suffix}:1\r\n` });
+
+    await expect(validatePasswordNotBreached("qwerty123")).resolves.toBe(
+      BREACHED_PASSWORD_MESSAGE,
+    );
+  });
+
+  it("passes a password that isn't listed", async () => {
+    mockedGet.mockResolvedValue({ data: "" });
+
+    await expect(
+      validatePasswordNotBreached("xkqzjvwmrhdpbtx"),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import { StateStorage } from "zustand/middleware";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("expo-secure-store", () => ({
+  isAvailableAsync: jest.fn(),
+  getItemAsync: jest.fn(),
+  setItemAsync: jest.fn(),
+  deleteItemAsync: jest.fn(),
+}));
+jest.mock("../logger");
+
+const mockedSecureStore = jest.mocked(SecureStore);
+
+/**
+ * A fresh copy of the module, since it picks its backend once
+ */
+const loadSecureStorage = (): StateStorage => {
+  let storage: StateStorage | undefined;
+  jest.isolateModules(() => {
+    storage = require("../secureStorage").secureStorage;
+  });
+  return storage!;
+};
+
+describe("secureStorage (native)", () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockedSecureStore.getItemAsync.mockResolvedValue(null);
+    await AsyncStorage.clear();
+  });
+
+  it("uses the keychain when it's available", async () => {
+    mockedSecureStore.isAvailableAsync.mockResolvedValue(true);
+    const storage = loadSecureStorage();
+
+    await storage.setItem("auth-storage", "value");
+
+    expect(mockedSecureStore.setItemAsync).toHaveBeenCalledWith(
+      "auth-storage",
+      "value",
+    );
+  });
+
+  it.each([
+    ["reports it's unavailable", () => Promise.resolve(false)],
+    ["fails to answer", () => Promise.reject(new Error("No keystore"))],
+  ])("falls back to memory when the keychain %s", async (_, isAvailable) => {
+    mockedSecureStore.isAvailableAsync.mockImplementation(isAvailable);
+    const storage = loadSecureStorage();
+
+    await storage.setItem("auth-storage", "value");
+
+    await expect(storage.getItem("auth-storage")).resolves.toBe("value");
+    expect(mockedSecureStore.setItemAsync).not.toHaveBeenCalled();
+    await expect(AsyncStorage.getItem("auth-storage")).resolves.toBeNull();
+  });
+
+  it("moves a plaintext entry into the keychain", async () => {
+    mockedSecureStore.isAvailableAsync.mockResolvedValue(true);
+    await AsyncStorage.setItem("auth-storage", "plaintext");
+    const storage = loadSecureStorage();
+
+    await expect(storage.getItem("auth-storage")).resolves.toBe("plaintext");
+    expect(mockedSecureStore.setItemAsync).toHaveBeenCalledWith(
+      "auth-storage",
+      "plaintext",
+    );
+    await expect(AsyncStorage.getItem("auth-storage")).resolves.toBeNull();
+  });
+
+  it("keeps a plaintext entry when the keychain is unavailable", async () => {
+    mockedSecureStore.isAvailableAsync.mockResolvedValue(false);
+    await AsyncStorage.setItem("auth-storage", "plaintext");
+    const storage = loadSecureStorage();
+
+    await expect(storage.getItem("auth-storage")).resolves.toBe("plaintext");
+    await expect(AsyncStorage.getItem("auth-storage")).resolves.toBe(
+      "plaintext",
+    );
+  });
+});
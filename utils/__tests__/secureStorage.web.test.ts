@@ -0,0 +1,84 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { StateStorage } from "zustand/middleware";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("../logger");
+
+/**
+ * A fresh copy of the module, since it picks its backend once
+ */
+const loadSecureStorage = (): StateStorage => {
+  let storage: StateStorage | undefined;
+  jest.isolateModules(() => {
+    storage = require("../secureStorage.web").secureStorage;
+  });
+  return storage!;
+};
+
+const setGlobal = (name: string, value: unknown) =>
+  Object.defineProperty(globalThis, name, {
+    value,
+    configurable: true,
+    writable: true,
+  });
+
+describe("secureStorage (web)", () => {
+  const originalCrypto = globalThis.crypto;
+  const originalIndexedDB = (globalThis as { indexedDB?: unknown }).indexedDB;
+
+  afterEach(async () => {
+    setGlobal("crypto", originalCrypto);
+    setGlobal("indexedDB", originalIndexedDB);
+    await AsyncStorage.clear();
+  });
+
+  /**
+   * Memory storage keeps values without writing anything to AsyncStorage
+   */
+  const expectMemoryStorage = async (storage: StateStorage) => {
+    await storage.setItem("auth-storage", "value");
+
+    await expect(storage.getItem("auth-storage")).resolves.toBe("value");
+    await expect(AsyncStorage.getAllKeys()).resolves.toEqual([]);
+  };
+
+  it("falls back to memory without IndexedDB", async () => {
+    setGlobal("indexedDB", undefined);
+
+    await expectMemoryStorage(loadSecureStorage());
+  });
+
+  it("falls back to memory without WebCrypto", async () => {
+    const open = jest.fn();
+    setGlobal("indexedDB", { open });
+    setGlobal("crypto", {
+      getRandomValues: originalCrypto.getRandomValues.bind(originalCrypto),
+    });
+
+    await expectMemoryStorage(loadSecureStorage());
+    expect(open).not.toHaveBeenCalled();
+  });
+
+  it("falls back to memory when the key can't be loaded", async () => {
+    setGlobal("indexedDB", {
+      open: () => {
+        throw new Error("Blocked by the browser");
+      },
+    });
+
+    await expectMemoryStorage(loadSecureStorage());
+  });
+
+  it("keeps a plaintext entry when only memory storage is available", async () => {
+    setGlobal("indexedDB", undefined);
+    await AsyncStorage.setItem("auth-storage", "plaintext");
+    const storage = loadSecureStorage();
+
+    await expect(storage.getItem("auth-storage")).resolves.toBe("plaintext");
+    await expect(AsyncStorage.getItem("auth-storage")).resolves.toBe(
+      "plaintext",
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createMemoryStorage } from "../memoryStorage";
+import { withPlaintextMigration } from "../storageMigration";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("../logger");
+
+const persistent = () => Promise.resolve(true);
+
+describe("withPlaintextMigration", () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it("moves a plaintext entry into the wrapped storage on first read", async () => {
+    const inner = createMemoryStorage();
+    const storage = withPlaintextMigration(inner, persistent);
+    await AsyncStorage.setItem("auth-storage", "plaintext");
+
+    await expect(storage.getItem("auth-storage")).resolves.toBe("plaintext");
+    expect(inner.getItem("auth-storage")).toBe("plaintext");
+    await expect(AsyncStorage.getItem("auth-storage")).resolves.toBeNull();
+  });
+
+  it("prefers the wrapped storage over a leftover plaintext entry", async () => {
+    const inner = createMemoryStorage();
+    inner.setItem("auth-storage", "secure");
+    const storage = withPlaintextMigration(inner, persistent);
+    await AsyncStorage.setItem("auth-storage", "plaintext");
+
+    await expect(storage.getItem("auth-storage")).resolves.toBe("secure");
+  });
+
+  it("returns null when neither storage has the entry", async () => {
+    const storage = withPlaintextMigration(createMemoryStorage(), persistent);
+
+    await expect(storage.getItem("auth-storage")).resolves.toBeNull();
+  });
+
+  it("removes the entry from both storages", async () => {
+    const inner = createMemoryStorage();
+    inner.setItem("auth-storage", "secure");
+    const storage = withPlaintextMigration(inner, persistent);
+    await AsyncStorage.setItem("auth-storage", "plaintext");
+
+    await storage.removeItem("auth-storage");
+
+    expect(inner.getItem("auth-storage")).toBeNull();
+    await expect(AsyncStorage.getItem("auth-storage")).resolves.toBeNull();
+  });
+
+  it("leaves the plaintext entry alone when the storage isn't persistent", async () => {
+    const inner = createMemoryStorage();
+    const storage = withPlaintextMigration(inner, () => Promise.resolve(false));
+    await AsyncStorage.setItem("auth-storage", "plaintext");
+
+    await expect(storage.getItem("auth-storage")).resolves.toBe("plaintext");
+    expect(inner.getItem("auth-storage")).toBeNull();
+    await expect(AsyncStorage.getItem("auth-storage")).resolves.toBe(
+      "plaintext",
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { base64UrlToBuffer, bufferToBase64Url } from "../webauthn";
+
+const bytes = (...values: number[]) => new Uint8Array(values).buffer;
+
+describe("base64url helpers", () => {
+  it("encodes without padding, using - and _", () => {
+    // Plain base64 would be "+/+/" and "AQ=="
+    expect(bufferToBase64Url(bytes(0xfb, 0xff, 0xbf))).toBe("-_-_");
+    expect(bufferToBase64Url(bytes(0x01))).toBe("AQ");
+  });
+
+  it("decodes unpadded input of every length", () => {
+    expect(new Uint8Array(base64UrlToBuffer("AQ"))).toEqual(
+      new Uint8Array([0x01]),
+    );
+    expect(new Uint8Array(base64UrlToBuffer("AQI"))).toEqual(
+      new Uint8Array([0x01, 0x02]),
+    );
+    expect(new Uint8Array(base64UrlToBuffer("-_-_"))).toEqual(
+      new Uint8Array([0xfb, 0xff, 0xbf]),
+    );
+  });
+
+  it("round-trips every byte value", () => {
+    const all = new Uint8Array(256).map((_, index) => index);
+
+    for (let length = 0; length <= all.length; length += 37) {
+      const original = all.slice(0, length);
+      const encoded = bufferToBase64Url(original.buffer);
+
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]*$/);
+      expect(new Uint8Array(base64UrlToBuffer(encoded))).toEqual(original);
+    }
+  });
+
+  it("round-trips strings the gateway sends", () => {
+    const challenge = "dGVzdC1jaGFsbGVuZ2UtMTIzNDU2Nzg5MA";
+
+    expect(bufferToBase64Url(base64UrlToBuffer(challenge))).toBe(challenge);
+  });
+});
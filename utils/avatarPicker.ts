@@ -0,0 +1,90 @@
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import * as ImagePicker from "expo-image-picker";
+import { Platform } from "react-native";
+import { logger } from "./logger";
+
+/**
+ * Avatars are uploaded as square JPEGs of this size
+ */
+const AVATAR_SIZE = 512;
+const AVATAR_QUALITY = 0.8;
+
+/**
+ * A prepared avatar image, ready for upload
+ */
+export interface AvatarFile {
+  uri: string;
+  name: string;
+  mimeType: string;
+}
+
+/**
+ * Outcome of picking an avatar
+ * - cancelled: the user closed the picker
+ * - error: anything else, with a message suitable for FormError
+ */
+export type AvatarPickResult =
+  | { type: "success"; file: AvatarFile }
+  | { type: "cancelled" }
+  | { type: "error"; message: string };
+
+/**
+ * Centered square covering the largest area of the image
+ */
+const centerSquare = (width: number, height: number) => {
+  const size = Math.min(width, height);
+  return {
+    originX: Math.round((width - size) / 2),
+    originY: Math.round((height - size) / 2),
+    width: size,
+    height: size,
+  };
+};
+
+/**
+ * Let the user pick a photo and crop it to a square avatar
+ *
+ * Native builds use the picker's own crop editor. The web picker has
+ * none, so the photo is cropped to its center square instead. Either
+ * way the result is resized and re-encoded, which also strips metadata
+ * such as location.
+ */
+export const pickAvatar = async (): Promise<AvatarPickResult> => {
+  try {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ["images"],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 1,
+    });
+    if (result.canceled) {
+      return { type: "cancelled" };
+    }
+
+    const asset = result.assets[0];
+    const context = ImageManipulator.manipulate(asset.uri);
+    if (Platform.OS === "web" || asset.width !== asset.height) {
+      context.crop(centerSquare(asset.width, asset.height));
+    }
+    context.resize({ width: AVATAR_SIZE, height: AVATAR_SIZE });
+
+    const image = await context.renderAsync();
+    const saved = await image.saveAsync({
+      format: SaveFormat.JPEG,
+      compress: AVATAR_QUALITY,
+    });
+
+    return {
+      type: "success",
+      file: { uri: saved.uri, name: "avatar.jpg", mimeType: "image/jpeg" },
+    };
+  } catch (error) {
+    logger.warn("Failed to prepare avatar", {
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      type: "error",
+      message: "We couldn't use that photo. Please try another one.",
+    };
+  }
+};
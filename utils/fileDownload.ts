@@ -0,0 +1,25 @@
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+/**
+ * Save a downloaded file on native builds
+ *
+ * The file is downloaded into the cache, then handed to the share sheet
+ * so the user picks where it goes (Files, Drive, email...). The web build
+ * resolves `fileDownload.web.ts` instead.
+ */
+export const saveRemoteFile = async (
+  url: string,
+  fileName: string,
+): Promise<void> => {
+  const target = `${FileSystem.cacheDirectory}${fileName}`;
+  const { uri, status } = await FileSystem.downloadAsync(url, target);
+  if (status !== 200) {
+    throw new Error("The download failed. Please try again.");
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Saving files isn't supported on this device.");
+  }
+  await Sharing.shareAsync(uri, { dialogTitle: "Save your data" });
+};
@@ -0,0 +1,18 @@
+/**
+ * Save a downloaded file on the web build
+ *
+ * Lets the browser download it through a temporary link, so it lands in
+ * the user's downloads folder like any other file.
+ */
+export const saveRemoteFile = async (
+  url: string,
+  fileName: string,
+): Promise<void> => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.rel = "noopener";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { logger } from "./logger";
+
+/**
+ * Claims read from the gateway's access token.
+ * Only `sub` and `exp` are required; profile claims are optional and any
+ * extra claims are kept.
+ */
+const jwtClaimsSchema = z.looseObject({
+  sub: z.string().min(1),
+  exp: z.number(),
+  iat: z.number().optional(),
+  email: z.string().optional(),
+  name: z.string().optional(),
+  role: z.string().optional(),
+  permissions: z.array(z.string()).optional(),
+  avatar: z.string().optional(),
+  picture: z.string().optional(),
+});
+
+export type JwtClaims = z.infer<typeof jwtClaimsSchema>;
+
+/**
+ * Decode a base64url segment into a UTF-8 string
+ */
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(
+    base64.length + ((4 - (base64.length % 4)) % 4),
+    "=",
+  );
+  const binary = atob(padded);
+
+  // Re-assemble multi-byte UTF-8 sequences (names with accents etc.)
+  return decodeURIComponent(
+    Array.from(
+      binary,
+      (char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`,
+    ).join(""),
+  );
+};
+
+/**
+ * Decode the payload of a JWT without verifying its signature.
+ * The gateway verifies tokens; the client only reads them to know who is
+ * signed in and when the token expires. Returns null for malformed tokens.
+ */
+export const decodeJwt = (token: string): JwtClaims | null => {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    return null;
+  }
+
+  try {
+    const result = jwtClaimsSchema.safeParse(
+      JSON.parse(decodeBase64Url(segments[1])),
+    );
+    return result.success ? result.data : null;
+  } catch (error) {
+    logger.warn("Failed to decode JWT payload");
+    return null;
+  }
+};
+
+/**
+ * Expiry of the token in epoch milliseconds
+ */
+export const getTokenExpiry = (claims: JwtClaims): number => claims.exp * 1000;
@@ -0,0 +1,34 @@
+import { StateStorage } from "zustand/middleware";
+
+/**
+ * In-memory storage adapter
+ *
+ * Fallback used when no secure backend is available (static web rendering,
+ * browsers without WebCrypto/IndexedDB, devices without a keystore).
+ * Nothing is written to disk, so the session simply doesn't survive a restart.
+ */
+const memoryStorages = new WeakSet<StateStorage>();
+
+export const createMemoryStorage = (): StateStorage => {
+  const entries = new Map<string, string>();
+
+  const storage: StateStorage = {
+    getItem: (name) => entries.get(name) ?? null,
+    setItem: (name, value) => {
+      entries.set(name, value);
+    },
+    removeItem: (name) => {
+      entries.delete(name);
+    },
+  };
+
+  memoryStorages.add(storage);
+  return storage;
+};
+
+/**
+ * Whether a storage is the in-memory fallback, which loses everything
+ * on restart
+ */
+export const isMemoryStorage = (storage: StateStorage): boolean =>
+  memoryStorages.has(storage);
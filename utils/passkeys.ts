@@ -0,0 +1,29 @@
+import {
+  PasskeyAssertionCredential,
+  PasskeyCeremonyResult,
+  PasskeyCreationOptions,
+  PasskeyRegistrationCredential,
+  PasskeyRequestOptions,
+} from "./webauthn";
+
+/**
+ * Passkeys on native builds
+ *
+ * Passkeys are only offered on the web build for now; the web build
+ * resolves `passkeys.web.ts` instead. These keep the same signatures so
+ * callers don't need platform checks beyond `isPasskeySupported`.
+ */
+const unsupported = {
+  type: "error",
+  message: "Passkeys aren't supported on this device yet.",
+} as const;
+
+export const isPasskeySupported = (): boolean => false;
+
+export const createPasskeyCredential = async (
+  _options: PasskeyCreationOptions,
+): Promise<PasskeyCeremonyResult<PasskeyRegistrationCredential>> => unsupported;
+
+export const getPasskeyCredential = async (
+  _options: PasskeyRequestOptions,
+): Promise<PasskeyCeremonyResult<PasskeyAssertionCredential>> => unsupported;
@@ -0,0 +1,152 @@
+import { logger } from "./logger";
+import {
+  base64UrlToBuffer,
+  bufferToBase64Url,
+  PasskeyAssertionCredential,
+  PasskeyCeremonyResult,
+  PasskeyCreationOptions,
+  PasskeyRegistrationCredential,
+  PasskeyRequestOptions,
+} from "./webauthn";
+
+/**
+ * Passkeys on the web build (WebAuthn through `navigator.credentials`)
+ *
+ * Design Patterns Used:
+ * - Adapter Pattern: Converts the gateway's JSON options into WebAuthn
+ *   options and the resulting credentials back into JSON
+ * - Strategy Pattern: Native builds resolve `passkeys.ts` instead
+ *
+ * The browser's own ceremony UI handles the authenticator. In automated
+ * tests a virtual authenticator (e.g. Chrome DevTools'
+ * `WebAuthn.addVirtualAuthenticator`) answers instead of hardware.
+ */
+
+export const isPasskeySupported = (): boolean =>
+  typeof window !== "undefined" &&
+  typeof window.PublicKeyCredential === "function" &&
+  !!navigator.credentials;
+
+const toDescriptors = (
+  descriptors?: { id: string; type: "public-key"; transports?: string[] }[],
+): PublicKeyCredentialDescriptor[] | undefined =>
+  descriptors?.map(({ id, type, transports }) => ({
+    id: base64UrlToBuffer(id),
+    type,
+    transports: transports as AuthenticatorTransport[] | undefined,
+  }));
+
+/**
+ * Map a failed ceremony; NotAllowedError covers both "cancelled" and
+ * "timed out", which browsers deliberately don't tell apart
+ */
+const toFailure = (
+  error: unknown,
+  fallbackMessage: string,
+): { type: "cancelled" } | { type: "error"; message: string } => {
+  const name = error instanceof Error ? error.name : "";
+
+  if (name === "NotAllowedError" || name === "AbortError") {
+    return { type: "cancelled" };
+  }
+
+  logger.error("Passkey ceremony failed", {
+    name,
+    message: error instanceof Error ? error.message : String(error),
+  });
+
+  if (name === "InvalidStateError") {
+    return {
+      type: "error",
+      message: "This device already has a passkey for your account.",
+    };
+  }
+
+  return { type: "error", message: fallbackMessage };
+};
+
+export const createPasskeyCredential = async (
+  options: PasskeyCreationOptions,
+): Promise<PasskeyCeremonyResult<PasskeyRegistrationCredential>> => {
+  if (!isPasskeySupported()) {
+    return {
+      type: "error",
+      message: "This browser doesn't support passkeys.",
+    };
+  }
+
+  try {
+    const credential = (await navigator.credentials.create({
+      publicKey: {
+        ...options,
+        challenge: base64UrlToBuffer(options.challenge),
+        user: { ...options.user, id: base64UrlToBuffer(options.user.id) },
+        excludeCredentials: toDescriptors(options.excludeCredentials),
+      } as PublicKeyCredentialCreationOptions,
+    })) as PublicKeyCredential | null;
+
+    if (!credential) return { type: "cancelled" };
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    return {
+      type: "success",
+      credential: {
+        id: credential.id,
+        rawId: bufferToBase64Url(credential.rawId),
+        type: "public-key",
+        response: {
+          clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+          attestationObject: bufferToBase64Url(response.attestationObject),
+          transports: response.getTransports?.() ?? [],
+        },
+        authenticatorAttachment: credential.authenticatorAttachment ?? null,
+      },
+    };
+  } catch (error) {
+    return toFailure(error, "Creating the passkey failed. Please try again.");
+  }
+};
+
+export const getPasskeyCredential = async (
+  options: PasskeyRequestOptions,
+): Promise<PasskeyCeremonyResult<PasskeyAssertionCredential>> => {
+  if (!isPasskeySupported()) {
+    return {
+      type: "error",
+      message: "This browser doesn't support passkeys.",
+    };
+  }
+
+  try {
+    const credential = (await navigator.credentials.get({
+      publicKey: {
+        ...options,
+        challenge: base64UrlToBuffer(options.challenge),
+        allowCredentials: toDescriptors(options.allowCredentials),
+      } as PublicKeyCredentialRequestOptions,
+    })) as PublicKeyCredential | null;
+
+    if (!credential) return { type: "cancelled" };
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    return {
+      type: "success",
+      credential: {
+        id: credential.id,
+        rawId: bufferToBase64Url(credential.rawId),
+        type: "public-key",
+        response: {
+          clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+          authenticatorData: bufferToBase64Url(response.authenticatorData),
+          signature: bufferToBase64Url(response.signature),
+          userHandle: response.userHandle
+            ? bufferToBase64Url(response.userHandle)
+            : null,
+        },
+        authenticatorAttachment: credential.authenticatorAttachment ?? null,
+      },
+    };
+  } catch (error) {
+    return toFailure(error, "Passkey sign-in failed. Please try again.");
+  }
+};
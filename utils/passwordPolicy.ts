@@ -0,0 +1,477 @@
+import axios from "axios";
+import * as Crypto from "expo-crypto";
+import { COMMON_PASSWORDS } from "../constants/CommonPasswords";
+
+/**
+ * Password policy for every new password (signup, reset)
+ *
+ * Strength is an entropy estimate: the password is split into the
+ * cheapest mix of guessable patterns (common words, keyboard runs,
+ * sequences, repeats, years) and random characters, so "Password1!"
+ * is rated by how an attacker would guess it rather than by how many
+ * character classes it uses. The breached-password check is separate
+ * because it needs the network.
+ */
+
+export type PasswordStrength = "weak" | "fair" | "good" | "strong";
+
+export interface PasswordEvaluation {
+  strength: PasswordStrength;
+  score: number;
+  entropyBits: number;
+  feedback: string[];
+}
+
+/**
+ * Highest score evaluatePassword can return
+ */
+export const MAX_PASSWORD_SCORE = 4;
+
+/**
+ * Minimum score a new password must reach (signup, reset)
+ */
+export const MIN_PASSWORD_SCORE = 2;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Entropy needed for scores 1-4
+const SCORE_THRESHOLDS = [20, 35, 50, 65];
+
+// Only the start of very long passwords is analysed; the rest can't
+// make a password weaker
+const MAX_ANALYSED_LENGTH = 128;
+
+type PatternKind =
+  | "dictionary"
+  | "userInput"
+  | "keyboard"
+  | "sequence"
+  | "repeat"
+  | "year";
+
+interface PatternMatch {
+  kind: PatternKind;
+  start: number;
+  end: number; // exclusive
+  bits: number;
+}
+
+const PATTERN_FEEDBACK: Record<PatternKind, string> = {
+  dictionary: "Avoid common words and passwords",
+  userInput: "Avoid using your name or email",
+  keyboard: 'Avoid keyboard patterns like "qwerty"',
+  sequence: 'Avoid sequences like "abc" or "123"',
+  repeat: "Avoid repeated characters or patterns",
+  year: "Avoid years and dates",
+};
+
+const KEYBOARD_ROWS = [
+  "`1234567890-=",
+  "qwertyuiop[]\\",
+  "asdfghjkl;'",
+  "zxcvbnm,./",
+];
+const KEYBOARD_KEY_COUNT = KEYBOARD_ROWS.join("").length;
+
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+  "!": "i",
+};
+
+const COMMON_PASSWORD_RANKS = new Map(
+  COMMON_PASSWORDS.map((word, index) => [word, index + 1]),
+);
+const MAX_WORD_LENGTH = 24;
+const MIN_MATCH_LENGTH = 3;
+
+const log2 = Math.log2;
+
+/**
+ * Size of the character set an attacker would brute-force
+ */
+const charsetSize = (value: string): number => {
+  let size = 0;
+  if (/[a-z]/.test(value)) size += 26;
+  if (/[A-Z]/.test(value)) size += 26;
+  if (/\d/.test(value)) size += 10;
+  if (/[ -/:-@[-`{-~]/.test(value)) size += 33;
+  if (/[^\x20-\x7e]/.test(value)) size += 100;
+  return Math.max(size, 1);
+};
+
+/**
+ * Extra guesses for the capitalisation of a matched word
+ */
+const capitalisationBits = (word: string): number => {
+  const uppercase = word.replace(/[^A-Z]/g, "").length;
+  if (uppercase === 0) return 0;
+  if (uppercase === word.length || /^[A-Z][^A-Z]*$/.test(word)) return 1;
+  return uppercase;
+};
+
+const unleet = (value: string): string =>
+  value
+    .split("")
+    .map((char) => LEET_SUBSTITUTIONS[char] ?? char)
+    .join("");
+
+/**
+ * Substrings that are (possibly capitalised, leet or reversed) entries
+ * of a ranked word list
+ */
+const findWordMatches = (
+  password: string,
+  ranks: Map<string, number>,
+  kind: PatternKind,
+): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+
+  for (let start = 0; start < password.length; start++) {
+    const maxEnd = Math.min(password.length, start + MAX_WORD_LENGTH);
+    for (let end = start + MIN_MATCH_LENGTH; end <= maxEnd; end++) {
+      const token = lower.slice(start, end);
+      const plain = unleet(token);
+      const reversed = plain.split("").reverse().join("");
+      const rank = ranks.get(plain) ?? ranks.get(reversed);
+      if (rank === undefined) continue;
+
+      matches.push({
+        kind,
+        start,
+        end,
+        bits:
+          log2(rank) +
+          capitalisationBits(password.slice(start, end)) +
+          (plain !== token ? 1 : 0) +
+          (ranks.has(plain) ? 0 : 1),
+      });
+    }
+  }
+  return matches;
+};
+
+/**
+ * Runs of three or more characters in a straight line on the keyboard
+ */
+const findKeyboardMatches = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+
+  const keyPosition = (char: string) => {
+    const row = KEYBOARD_ROWS.findIndex((keys) => keys.includes(char));
+    return row === -1
+      ? null
+      : { row, column: KEYBOARD_ROWS[row].indexOf(char) };
+  };
+
+  let start = 0;
+  while (start < lower.length - 1) {
+    let end = start + 1;
+    let direction = 0;
+    while (end < lower.length) {
+      const previous = keyPosition(lower[end - 1]);
+      const current = keyPosition(lower[end]);
+      const step =
+        previous && current && previous.row === current.row
+          ? current.column - previous.column
+          : 0;
+      if (Math.abs(step) !== 1 || (direction !== 0 && step !== direction)) {
+        break;
+      }
+      direction = step;
+      end++;
+    }
+
+    if (end - start >= MIN_MATCH_LENGTH) {
+      matches.push({
+        kind: "keyboard",
+        start,
+        end,
+        bits: log2(KEYBOARD_KEY_COUNT) + log2(end - start) + 1,
+      });
+    }
+    start = Math.max(end - 1, start + 1);
+  }
+  return matches;
+};
+
+/**
+ * Alphabetical or numeric runs ("abcd", "4321")
+ */
+const findSequenceMatches = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const isSameClass = (a: string, b: string) =>
+    (/\d/.test(a) && /\d/.test(b)) || (/[a-z]/.test(a) && /[a-z]/.test(b));
+
+  let start = 0;
+  while (start < lower.length - 1) {
+    let end = start + 1;
+    let direction = 0;
+    while (end < lower.length && isSameClass(lower[end - 1], lower[end])) {
+      const step = lower.charCodeAt(end) - lower.charCodeAt(end - 1);
+      if (Math.abs(step) !== 1 || (direction !== 0 && step !== direction)) {
+        break;
+      }
+      direction = step;
+      end++;
+    }
+
+    if (end - start >= MIN_MATCH_LENGTH) {
+      const classSize = /\d/.test(lower[start]) ? 10 : 26;
+      matches.push({
+        kind: "sequence",
+        start,
+        end,
+        bits: log2(classSize) + log2(end - start) + 1,
+      });
+    }
+    start = Math.max(end - 1, start + 1);
+  }
+  return matches;
+};
+
+/**
+ * A unit typed two or more times in a row ("aaaa", "abcabc")
+ */
+const findRepeatMatches = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const repeated = /(.+?)\1+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = repeated.exec(password)) !== null) {
+    const [whole, unit] = match;
+    if (whole.length < MIN_MATCH_LENGTH) continue;
+    matches.push({
+      kind: "repeat",
+      start: match.index,
+      end: match.index + whole.length,
+      bits:
+        unit.length * log2(charsetSize(unit)) +
+        log2(whole.length / unit.length),
+    });
+  }
+  return matches;
+};
+
+/**
+ * Four-digit years from 1900 to 2099
+ */
+const findYearMatches = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const years = /(?:19|20)\d\d/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = years.exec(password)) !== null) {
+    matches.push({
+      kind: "year",
+      start: match.index,
+      end: match.index + 4,
+      bits: log2(200),
+    });
+  }
+  return matches;
+};
+
+/**
+ * Words from the user's own details (email, name), which an attacker
+ * targeting this account would try first
+ */
+const userInputRanks = (userInputs: string[]): Map<string, number> => {
+  const ranks = new Map<string, number>();
+  userInputs
+    .flatMap((input) => input.toLowerCase().split(/[^a-z0-9]+/))
+    .filter((token) => token.length >= MIN_MATCH_LENGTH)
+    .forEach((token) => ranks.set(token, 1));
+  return ranks;
+};
+
+/**
+ * Cheapest split of the password into patterns and random characters
+ * (dynamic programming over prefixes); returns its entropy and the
+ * patterns it used
+ */
+const estimateEntropy = (
+  password: string,
+  matches: PatternMatch[],
+): { bits: number; patterns: PatternMatch[] } => {
+  const characterBits = log2(charsetSize(password));
+  const best: { bits: number; via: PatternMatch | null }[] = [
+    { bits: 0, via: null },
+  ];
+
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = { bits: best[end - 1].bits + characterBits, via: null };
+    matches
+      .filter((match) => match.end === end)
+      .forEach((match) => {
+        const bits = best[match.start].bits + match.bits;
+        if (bits < best[end].bits) {
+          best[end] = { bits, via: match };
+        }
+      });
+  }
+
+  const patterns: PatternMatch[] = [];
+  let position = password.length;
+  while (position > 0) {
+    const { via } = best[position];
+    if (via) {
+      patterns.unshift(via);
+      position = via.start;
+    } else {
+      position--;
+    }
+  }
+
+  return { bits: best[password.length].bits, patterns };
+};
+
+const strengthForScore = (score: number): PasswordStrength => {
+  if (score <= 1) return "weak";
+  if (score === 2) return "fair";
+  if (score === 3) return "good";
+  return "strong";
+};
+
+/**
+ * Rate a password and explain how to improve it
+ * Strategy Pattern: each pattern finder is one guessing strategy, and
+ * the estimate assumes the attacker uses the cheapest combination
+ *
+ * `userInputs` are the user's own details (email, name) that shouldn't
+ * appear in the password.
+ */
+export const evaluatePassword = (
+  password: string,
+  userInputs: string[] = [],
+): PasswordEvaluation => {
+  const analysed = password.slice(0, MAX_ANALYSED_LENGTH);
+  const matches = [
+    ...findWordMatches(analysed, COMMON_PASSWORD_RANKS, "dictionary"),
+    ...findWordMatches(analysed, userInputRanks(userInputs), "userInput"),
+    ...findKeyboardMatches(analysed),
+    ...findSequenceMatches(analysed),
+    ...findRepeatMatches(analysed),
+    ...findYearMatches(analysed),
+  ];
+  const { bits, patterns } = estimateEntropy(analysed, matches);
+
+  let score = SCORE_THRESHOLDS.filter((threshold) => bits >= threshold).length;
+  const feedback: string[] = [];
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    score = Math.min(score, 1);
+    feedback.push(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  new Set(patterns.map((pattern) => pattern.kind)).forEach((kind) =>
+    feedback.push(PATTERN_FEEDBACK[kind]),
+  );
+
+  if (score < 3 && feedback.length === 0) {
+    feedback.push("Make it longer, or mix in numbers and symbols");
+  }
+
+  return {
+    strength: strengthForScore(score),
+    score,
+    entropyBits: Math.round(bits),
+    feedback,
+  };
+};
+
+/**
+ * Breached-password check (Pwned Passwords range API)
+ *
+ * k-anonymity: only the first 5 hex characters of the password's SHA-1
+ * leave the device, and the response lists every breached hash sharing
+ * that prefix, so the service never learns which password was checked.
+ * Setting EXPO_PUBLIC_PWNED_PASSWORDS_URL points the check at the local
+ * stand-in server (`npm run mock:pwned`).
+ */
+const PWNED_PASSWORDS_URL =
+  process.env.EXPO_PUBLIC_PWNED_PASSWORDS_URL ??
+  "https://api.pwnedpasswords.com";
+const BREACH_CHECK_TIMEOUT_MS = 5_000;
+const HASH_PREFIX_LENGTH = 5;
+
+export const BREACHED_PASSWORD_MESSAGE =
+  "This password has appeared in a data breach. Please choose a different one.";
+
+/**
+ * Outcome of a breach check
+ * - unavailable: the service couldn't be reached; callers let the
+ *   password through rather than block signup on a third party
+ */
+export type PasswordBreachResult =
+  | { type: "breached"; count: number }
+  | { type: "clear" }
+  | { type: "unavailable" };
+
+// Full hash -> result, so blur and submit don't check the same password twice
+const breachResults = new Map<string, PasswordBreachResult>();
+
+export const checkPasswordBreach = async (
+  password: string,
+): Promise<PasswordBreachResult> => {
+  try {
+    // Hashing fails too where there's no crypto (e.g. insecure web
+    // origins); that's "unavailable" like a failed lookup
+    const hash = (
+      await Crypto.digestStringAsync(
+        Crypto.CryptoDigestAlgorithm.SHA1,
+        password,
+      )
+    ).toUpperCase();
+    const cached = breachResults.get(hash);
+    if (cached) {
+      return cached;
+    }
+
+    const prefix = hash.slice(0, HASH_PREFIX_LENGTH);
+    const suffix = hash.slice(HASH_PREFIX_LENGTH);
+
+    const { data } = await axios.get<string>(
+      `${PWNED_PASSWORDS_URL}/range/${prefix}`,
+      {
+        timeout: BREACH_CHECK_TIMEOUT_MS,
+        responseType: "text",
+        // Pads the response with fake entries so its size doesn't leak
+        headers: { "Add-Padding": "true" },
+      },
+    );
+
+    // One "SUFFIX:COUNT" per line; padding entries have a count of 0
+    const count = String(data)
+      .split("\n")
+      .map((line) => line.trim().split(":"))
+      .filter(([lineSuffix]) => lineSuffix?.toUpperCase() === suffix)
+      .reduce((total, [, lineCount]) => total + (Number(lineCount) || 0), 0);
+
+    const result: PasswordBreachResult =
+      count > 0 ? { type: "breached", count } : { type: "clear" };
+    breachResults.set(hash, result);
+    return result;
+  } catch {
+    return { type: "unavailable" };
+  }
+};
+
+/**
+ * useZodForm async validator for new-password fields
+ */
+export const validatePasswordNotBreached = async (
+  password: string,
+): Promise<string | undefined> => {
+  const result = await checkPasswordBreach(password);
+  return result.type === "breached" ? BREACHED_PASSWORD_MESSAGE : undefined;
+};
@@ -0,0 +1,33 @@
+import type { User } from "../store/authStore";
+
+/**
+ * What a screen or control asks of the signed-in user
+ * - roles: the user's role must be one of these
+ * - permissions: the user must hold every one of these
+ *
+ * Both come from the access token's claims. The gateway enforces the
+ * same rules on every request; these checks only decide what the client
+ * shows, so they fail closed when the user or a claim is missing.
+ */
+export interface AccessRequirements {
+  roles?: readonly string[];
+  permissions?: readonly string[];
+}
+
+export const hasRole = (
+  user: User | null,
+  roles: readonly string[] = [],
+): boolean => roles.length === 0 || (!!user?.role && roles.includes(user.role));
+
+export const hasPermissions = (
+  user: User | null,
+  permissions: readonly string[] = [],
+): boolean =>
+  permissions.every((permission) =>
+    (user?.permissions ?? []).includes(permission),
+  );
+
+export const hasAccess = (
+  user: User | null,
+  { roles, permissions }: AccessRequirements,
+): boolean => hasRole(user, roles) && hasPermissions(user, permissions);
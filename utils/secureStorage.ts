@@ -0,0 +1,49 @@
+import * as SecureStore from "expo-secure-store";
+import { StateStorage } from "zustand/middleware";
+import { logger } from "./logger";
+import { createMemoryStorage, isMemoryStorage } from "./memoryStorage";
+import { withPlaintextMigration } from "./storageMigration";
+
+/**
+ * Native secure storage adapter (iOS Keychain / Android Keystore)
+ *
+ * Design Patterns Used:
+ * - Adapter Pattern: Exposes expo-secure-store through zustand's StateStorage
+ * - Strategy Pattern: Falls back to memory storage when the keystore is missing
+ *
+ * The web build resolves `secureStorage.web.ts` instead.
+ */
+const keychainStorage: StateStorage = {
+  getItem: (name) => SecureStore.getItemAsync(name),
+  setItem: (name, value) => SecureStore.setItemAsync(name, value),
+  removeItem: (name) => SecureStore.deleteItemAsync(name),
+};
+
+let backend: Promise<StateStorage> | null = null;
+
+/**
+ * Resolve the backing storage once, on first use
+ */
+const getBackend = (): Promise<StateStorage> => {
+  if (!backend) {
+    backend = SecureStore.isAvailableAsync()
+      .catch(() => false)
+      .then((isAvailable) => {
+        if (isAvailable) {
+          return keychainStorage;
+        }
+        logger.warn("Secure store unavailable, using in-memory storage");
+        return createMemoryStorage();
+      });
+  }
+  return backend;
+};
+
+export const secureStorage: StateStorage = withPlaintextMigration(
+  {
+    getItem: async (name) => (await getBackend()).getItem(name),
+    setItem: async (name, value) => (await getBackend()).setItem(name, value),
+    removeItem: async (name) => (await getBackend()).removeItem(name),
+  },
+  async () => !isMemoryStorage(await getBackend()),
+);
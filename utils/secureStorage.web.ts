@@ -0,0 +1,158 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { StateStorage } from "zustand/middleware";
+import { logger } from "./logger";
+import { createMemoryStorage, isMemoryStorage } from "./memoryStorage";
+import { withPlaintextMigration } from "./storageMigration";
+
+const KEY_DATABASE = "secure-storage";
+const KEY_OBJECT_STORE = "keys";
+const ENCRYPTION_KEY_ID = "storage-key";
+const ENTRY_PREFIX = "secure:";
+
+/**
+ * Open (and create on first run) the IndexedDB database holding the key
+ */
+const openKeyDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DATABASE, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(KEY_OBJECT_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runKeyTransaction = <T>(
+  database: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const request = operation(
+      database
+        .transaction(KEY_OBJECT_STORE, mode)
+        .objectStore(KEY_OBJECT_STORE),
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Load the AES-GCM key, generating it on first use.
+ * The key is non-extractable: scripts can use it but never read its bytes,
+ * and it never touches localStorage.
+ */
+const loadEncryptionKey = async (): Promise<CryptoKey> => {
+  const database = await openKeyDatabase();
+  const existingKey = await runKeyTransaction<CryptoKey | undefined>(
+    database,
+    "readonly",
+    (store) => store.get(ENCRYPTION_KEY_ID),
+  );
+  if (existingKey) {
+    return existingKey;
+  }
+
+  const key = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+  await runKeyTransaction(database, "readwrite", (store) =>
+    store.put(key, ENCRYPTION_KEY_ID),
+  );
+  return key;
+};
+
+const toBase64 = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+/**
+ * Encrypted storage adapter for the web build
+ *
+ * Design Patterns Used:
+ * - Adapter Pattern: Exposes encrypted localStorage through StateStorage
+ * - Decorator Pattern: Encrypts values on their way into AsyncStorage
+ *
+ * Each entry is stored as `{ iv, data }` with a fresh IV per write.
+ */
+const createEncryptedStorage = (key: CryptoKey): StateStorage => ({
+  getItem: async (name) => {
+    const stored = await AsyncStorage.getItem(ENTRY_PREFIX + name);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      const { iv, data } = JSON.parse(stored);
+      const decrypted = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(iv) },
+        key,
+        fromBase64(data),
+      );
+      return new TextDecoder().decode(decrypted);
+    } catch (error) {
+      // Key was reset (cleared site data) or entry tampered with
+      logger.warn("Discarding unreadable secure storage entry", { name });
+      await AsyncStorage.removeItem(ENTRY_PREFIX + name);
+      return null;
+    }
+  },
+
+  setItem: async (name, value) => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      new TextEncoder().encode(value),
+    );
+    await AsyncStorage.setItem(
+      ENTRY_PREFIX + name,
+      JSON.stringify({
+        iv: toBase64(iv),
+        data: toBase64(new Uint8Array(encrypted)),
+      }),
+    );
+  },
+
+  removeItem: (name) => AsyncStorage.removeItem(ENTRY_PREFIX + name),
+});
+
+let backend: Promise<StateStorage> | null = null;
+
+/**
+ * Resolve the backing storage once, on first use.
+ * Static rendering and older browsers lack IndexedDB or WebCrypto.
+ */
+const getBackend = (): Promise<StateStorage> => {
+  if (!backend) {
+    const isSupported =
+      typeof indexedDB !== "undefined" &&
+      typeof crypto !== "undefined" &&
+      !!crypto.subtle;
+
+    backend = (
+      isSupported
+        ? loadEncryptionKey().then(createEncryptedStorage)
+        : Promise.reject(new Error("WebCrypto or IndexedDB not available"))
+    ).catch((error) => {
+      logger.warn("Encrypted storage unavailable, using in-memory storage", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return createMemoryStorage();
+    });
+  }
+  return backend;
+};
+
+export const secureStorage: StateStorage = withPlaintextMigration(
+  {
+    getItem: async (name) => (await getBackend()).getItem(name),
+    setItem: async (name, value) => (await getBackend()).setItem(name, value),
+    removeItem: async (name) => (await getBackend()).removeItem(name),
+  },
+  async () => !isMemoryStorage(await getBackend()),
+);
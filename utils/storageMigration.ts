@@ -0,0 +1,41 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { StateStorage } from "zustand/middleware";
+import { logger } from "./logger";
+
+/**
+ * Wrap a storage adapter so entries still held in plain AsyncStorage
+ * are moved into it on first read
+ * Decorator Pattern: adds migration without changing the wrapped adapter
+ *
+ * `isPersistent` tells whether the wrapped storage survives a restart.
+ * When it doesn't (the in-memory fallback), plaintext entries are read
+ * but left where they are: they're the only durable copy.
+ */
+export const withPlaintextMigration = (
+  storage: StateStorage,
+  isPersistent: () => Promise<boolean>,
+): StateStorage => ({
+  getItem: async (name) => {
+    const value = await storage.getItem(name);
+    if (value !== null) {
+      return value;
+    }
+
+    const plaintextValue = await AsyncStorage.getItem(name);
+    if (plaintextValue === null || !(await isPersistent())) {
+      return plaintextValue;
+    }
+
+    await storage.setItem(name, plaintextValue);
+    await AsyncStorage.removeItem(name);
+    logger.info("Migrated plaintext storage entry", { name });
+    return plaintextValue;
+  },
+
+  setItem: (name, value) => storage.setItem(name, value),
+
+  removeItem: async (name) => {
+    await storage.removeItem(name);
+    await AsyncStorage.removeItem(name);
+  },
+});
@@ -0,0 +1,123 @@
+import { z } from "zod";
+
+/**
+ * WebAuthn JSON wire format
+ *
+ * The gateway sends ceremony options and receives credentials as JSON,
+ * with every binary field base64url-encoded (the WebAuthn Level 3
+ * `toJSON()` shapes). These schemas validate the options; the helpers
+ * convert between the JSON and browser forms.
+ */
+
+const credentialDescriptorSchema = z.looseObject({
+  id: z.string(),
+  type: z.literal("public-key"),
+  transports: z.array(z.string()).optional(),
+});
+
+export const passkeyCreationOptionsSchema = z.looseObject({
+  challenge: z.string(),
+  rp: z.looseObject({ id: z.string().optional(), name: z.string() }),
+  user: z.looseObject({
+    id: z.string(),
+    name: z.string(),
+    displayName: z.string(),
+  }),
+  pubKeyCredParams: z.array(
+    z.looseObject({ type: z.literal("public-key"), alg: z.number() }),
+  ),
+  timeout: z.number().optional(),
+  excludeCredentials: z.array(credentialDescriptorSchema).optional(),
+  authenticatorSelection: z
+    .looseObject({
+      authenticatorAttachment: z
+        .enum(["platform", "cross-platform"])
+        .optional(),
+      residentKey: z.enum(["discouraged", "preferred", "required"]).optional(),
+      userVerification: z
+        .enum(["discouraged", "preferred", "required"])
+        .optional(),
+    })
+    .optional(),
+  attestation: z.enum(["none", "indirect", "direct", "enterprise"]).optional(),
+});
+
+export const passkeyRequestOptionsSchema = z.looseObject({
+  challenge: z.string(),
+  rpId: z.string().optional(),
+  timeout: z.number().optional(),
+  allowCredentials: z.array(credentialDescriptorSchema).optional(),
+  userVerification: z.enum(["discouraged", "preferred", "required"]).optional(),
+});
+
+export type PasskeyCreationOptions = z.infer<
+  typeof passkeyCreationOptionsSchema
+>;
+export type PasskeyRequestOptions = z.infer<typeof passkeyRequestOptionsSchema>;
+
+/**
+ * New passkey, as sent to the registration verify endpoint
+ */
+export interface PasskeyRegistrationCredential {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports: string[];
+  };
+  authenticatorAttachment: string | null;
+}
+
+/**
+ * Signed challenge, as sent to the sign-in verify endpoint
+ */
+export interface PasskeyAssertionCredential {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle: string | null;
+  };
+  authenticatorAttachment: string | null;
+}
+
+/**
+ * Outcome of a browser passkey ceremony
+ * - cancelled: the user dismissed the prompt or it timed out
+ * - error: anything else, with a message suitable for FormError
+ */
+export type PasskeyCeremonyResult<T> =
+  | { type: "success"; credential: T }
+  | { type: "cancelled" }
+  | { type: "error"; message: string };
+
+export const base64UrlToBuffer = (value: string): ArrayBuffer => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(
+    base64.length + ((4 - (base64.length % 4)) % 4),
+    "=",
+  );
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+export const bufferToBase64Url = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};